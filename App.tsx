@@ -1,117 +1,211 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { ControlPanel } from './components/ControlPanel';
 import { NewsTable } from './components/NewsTable';
-import { NewsItem, GenerationMode } from './types';
-import { fetchESGNews } from './services/geminiService';
+import { DatasetPicker } from './components/DatasetPicker';
+import { RunHistory } from './components/RunHistory';
+import { DedupReview } from './components/DedupReview';
+import { ExportDialog } from './components/ExportDialog';
+import { ImportDialog } from './components/ImportDialog';
+import { LabelingView } from './components/LabelingView';
+import { AgreementPanel } from './components/AgreementPanel';
+import { PillarBalance } from './components/PillarBalance';
+import { QuarantineReview } from './components/QuarantineReview';
+import { CoverageChart } from './components/CoverageChart';
+import { JobQueue } from './components/JobQueue';
+import { NewsItem, GenerationConfig, Dataset, CrawlRun, DedupOptions, DroppedDuplicate, TextTemplate, ExportOptions, LabelSet, QuarantinedItem, CrawlJob, JobExecution, JobStatus, RateLimitOptions, ValidationOptions } from './types';
+import { getProvider } from './services/providers';
+import * as storage from './services/storageService';
+import { createRun, describeConfig, planUpdates } from './services/crawlPlan';
+import { crawlRuns, formatProgress, formatSummary } from './services/crawler';
+import { createDedupIndex, DEFAULT_DEDUP_OPTIONS } from './services/dedupService';
+import { applyTextTemplate, DEFAULT_TEXT_TEMPLATE } from './services/textTemplate';
+import { DEFAULT_EXPORT_OPTIONS, downloadBlob, exportDataset, reconcileColumns } from './services/exportService';
+import { parseImportFile } from './services/importService';
+import { exportManifest } from './services/manifestService';
+import { totalCost } from './services/costService';
+import { parseLabelSet } from './services/labelingService';
+import { applyClassifications, classifyItem } from './services/classifier';
+import { DEFAULT_VALIDATION_OPTIONS } from './services/validationService';
+import { configureRateLimits, DEFAULT_RATE_LIMITS } from './services/rateLimiter';
+import { applyChangeToItems, deletedIds, EditChange, invertChange, MAX_HISTORY } from './services/editHistory';
 
 const App: React.FC = () => {
   const [newsData, setNewsData] = useState<NewsItem[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [progressStr, setProgressStr] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  const [activeDatasetId, setActiveDatasetId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<CrawlRun[]>([]);
+  const [dedupOptions, setDedupOptions] = useState<DedupOptions>(DEFAULT_DEDUP_OPTIONS);
+  const [undoStack, setUndoStack] = useState<EditChange[]>([]);
+  const [redoStack, setRedoStack] = useState<EditChange[]>([]);
+  const [view, setView] = useState<'browse' | 'label'>('browse');
+  const [annotator, setAnnotator] = useState<string>(() => storage.getPreference('annotator', ''));
+  const [labelSets, setLabelSets] = useState<LabelSet[]>([]);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(() => {
+    const saved = storage.getPreference('exportOptions', DEFAULT_EXPORT_OPTIONS);
+    return { ...saved, columns: reconcileColumns(saved.columns) };
+  });
+  const [textTemplate, setTextTemplate] = useState<TextTemplate>(() => storage.getPreference('textTemplate', DEFAULT_TEXT_TEMPLATE));
+  const [droppedDuplicates, setDroppedDuplicates] = useState<DroppedDuplicate[]>([]);
+  const [validationOptions, setValidationOptions] = useState<ValidationOptions>(() => ({
+    ...DEFAULT_VALIDATION_OPTIONS,
+    ...storage.getPreference('validationOptions', DEFAULT_VALIDATION_OPTIONS),
+  }));
+  const [quarantined, setQuarantined] = useState<QuarantinedItem[]>([]);
+  const [jobs, setJobs] = useState<CrawlJob[]>([]);
+  const [jobExecution, setJobExecution] = useState<JobExecution>(() => storage.getPreference('jobExecution', 'sequential'));
+  const [rateLimits, setRateLimits] = useState<RateLimitOptions>(() => {
+    const saved = { ...DEFAULT_RATE_LIMITS, ...storage.getPreference('rateLimits', DEFAULT_RATE_LIMITS) };
+    configureRateLimits(saved);
+    return saved;
+  });
+  // USD cap per crawl sequence; unset means no cap
+  const [budget, setBudget] = useState<number | undefined>(() => storage.getPreference<number | null>('costBudget', null) ?? undefined);
   
   // Ref to handle stopping the loop
   const stopRef = useRef(false);
+  // Pause/cancel requests for jobs that are currently running, checked before each window
+  const jobControlRef = useRef<Record<string, JobStatus>>({});
+  // Spend of the queue so far, so every job counts toward one budget; cleared once the queue drains
+  const spentRef = useRef(0);
+  // Set when a crawl hit the budget, so the queue effect holds the waiting jobs instead of starting them
+  const budgetReachedRef = useRef(false);
 
+  const refreshDatasets = async () => {
+    setDatasets(await storage.listDatasets());
+  };
+
+  const openDataset = async (id: string) => {
+    setActiveDatasetId(id);
+    storage.setActiveDatasetId(id);
+    setNewsData(await storage.loadDatasetItems(id));
+    setRuns(await storage.listRuns(id));
+    setLabelSets(await storage.listLabelSets(id));
+    setDroppedDuplicates([]);
+    setQuarantined(await storage.listQuarantined(id));
+    // Jobs still marked running were interrupted by a reload
+    const storedJobs = await storage.listJobs(id);
+    setJobs(storedJobs.map(job => job.status === 'running' ? { ...job, status: 'paused' } : job));
+    setUndoStack([]);
+    setRedoStack([]);
+  };
+
+  // Restore the last opened dataset (or create a first one) on load
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        let list = await storage.listDatasets();
+        if (list.length === 0) {
+          await storage.createDataset('Untitled Dataset');
+          list = await storage.listDatasets();
+        }
+        setDatasets(list);
+
+        const lastId = storage.getActiveDatasetId();
+        const target = list.find(d => d.id === lastId) || list[0];
+        await openDataset(target.id);
+      } catch (err: any) {
+        console.error("Failed to open local storage", err);
+        setError("Local storage (IndexedDB) is unavailable, so no dataset could be opened and collection is disabled. Check that the browser allows site storage (e.g. not a private window) and reload.");
+      }
+    };
+    restore();
+  }, []);
+
+  const handleCreateDataset = async (name: string) => {
+    const dataset = await storage.createDataset(name);
+    await refreshDatasets();
+    await openDataset(dataset.id);
+  };
+
+  const handleRenameDataset = async (id: string, name: string) => {
+    await storage.renameDataset(id, name);
+    await refreshDatasets();
+  };
+
+  const handleDeleteDataset = async (id: string) => {
+    await storage.deleteDataset(id);
+    let list = await storage.listDatasets();
+    if (list.length === 0) {
+      await storage.createDataset('Untitled Dataset');
+      list = await storage.listDatasets();
+    }
+    setDatasets(list);
+    await openDataset(list[0].id);
+  };
+
+  // Stop holds the whole queue: waiting jobs are paused too, so the queue doesn't start the next one
   const handleStop = () => {
     stopRef.current = true;
+    updateJobs(jobs.filter(job => job.status === 'queued').map(job => ({ ...job, status: 'paused' })));
   };
 
-  const handleSequenceGenerate = async (
-    ticker: string,
-    startStr: string,
-    endStr: string,
-    mode: GenerationMode,
-    itemsPerDay: number
+  // Crawl the given runs with the shared core loop, mirroring every batch into state and IndexedDB
+  const executeRuns = async (
+    runList: CrawlRun[],
+    execution: JobExecution = 'sequential',
+    jobsByRun: Record<string, CrawlJob> = {}
   ) => {
     setIsGenerating(true);
     setError(null);
     stopRef.current = false;
-    
-    let totalGenerated = 0;
-    let errorCount = 0;
 
-    try {
-      // 1. Dynamic Chunking Strategy
-      // Calculate optimal window to fetch ~25 items per request to maximize efficiency
-      const TARGET_ITEMS_PER_REQ = 25;
-      const rawDays = Math.ceil(TARGET_ITEMS_PER_REQ / Math.max(0.1, itemsPerDay));
-      // Clamp: Min 5 days (avoid tiny requests), Max 60 days (avoid context limits)
-      const chunkDays = Math.max(5, Math.min(rawDays, 60));
-
-      // 2. Pre-calculate all chunks
-      const chunks: {start: string, end: string, count: number}[] = [];
-      let currentDate = new Date(startStr);
-      const finalDate = new Date(endStr);
-
-      while (currentDate < finalDate) {
-         const chunkEnd = new Date(currentDate);
-         chunkEnd.setDate(chunkEnd.getDate() + chunkDays);
-         const actualEnd = chunkEnd > finalDate ? finalDate : chunkEnd;
-         
-         const daysInChunk = (actualEnd.getTime() - currentDate.getTime()) / (86400000);
-         const count = Math.ceil(daysInChunk * itemsPerDay);
-
-         if (count > 0) {
-             chunks.push({
-                 start: currentDate.toISOString().split('T')[0],
-                 end: actualEnd.toISOString().split('T')[0],
-                 count
-             });
-         }
-         currentDate = actualEnd;
-      }
+    // Kept from the latest progress, so a crawl that fails midway still adds its spend
+    let callSpend = 0;
+    const jobIds: Record<string, string> = {};
+    Object.entries(jobsByRun).forEach(([runId, job]) => { jobIds[runId] = job.id; });
 
-      // 3. Process with Concurrency (Parallel Crawling)
-      const CONCURRENCY = 3; 
-      const totalBatches = Math.ceil(chunks.length / CONCURRENCY);
+    // Jobs end in the status their run ended in, unless the user paused or cancelled them meanwhile
+    const settleJobs = () => {
+      updateJobs(runList.filter(run => jobsByRun[run.id]).map(run => {
+        const job = jobsByRun[run.id];
+        const status: JobStatus = run.status === 'stopped' ? 'paused' : run.status === 'running' ? 'failed' : run.status;
+        return { ...job, status: jobControlRef.current[job.id] || status };
+      }));
+      Object.values(jobsByRun).forEach(job => delete jobControlRef.current[job.id]);
+    };
 
-      for (let i = 0; i < chunks.length; i += CONCURRENCY) {
-          if (stopRef.current) break;
-          
-          const batch = chunks.slice(i, i + CONCURRENCY);
-          const batchIdx = Math.floor(i / CONCURRENCY) + 1;
-
-          setProgressStr(`Batch ${batchIdx}/${totalBatches}: Crawling ${batch.length} parallel segments... | Total: ${totalGenerated} | Errors: ${errorCount}`);
-          
-          // Execute batch in parallel
-          // We wrap promises to catch individual failures without stopping the whole batch
-          const promises = batch.map(chunk => 
-             fetchESGNews(ticker, chunk.start, chunk.end, mode, chunk.count)
-                .then(items => ({ success: true as const, items }))
-                .catch(err => ({ success: false as const, err }))
-          );
-
-          const results = await Promise.all(promises);
-
-          // Process results
-          for (const res of results) {
-              if (res.success) {
-                  setNewsData(prev => [...prev, ...res.items]);
-                  totalGenerated += res.items.length;
-              } else {
-                  console.error("Chunk failed", res.err);
-                  errorCount++;
-                  // Critical error check
-                  if (res.err && res.err.message && res.err.message.includes("API Key")) {
-                      throw res.err; 
-                  }
-              }
-          }
-          
-          // Rate limit breather between batches
-          if (i + CONCURRENCY < chunks.length && !stopRef.current) {
-              await new Promise(r => setTimeout(r, 1000));
-          }
-      }
-
-      if (stopRef.current) {
-        setProgressStr(`Stopped by user. Total: ${totalGenerated}. Errors: ${errorCount}`);
-      } else {
-        setProgressStr(`Sequence Completed! Total: ${totalGenerated}. Errors: ${errorCount}`);
-      }
+    try {
+      const stats = await crawlRuns(runList, {
+        existing: newsData,
+        dedup: dedupOptions,
+        validation: validationOptions,
+        textTemplate,
+        maxConcurrency: rateLimits.maxConcurrency,
+        budget,
+        spent: spentRef.current,
+        execution,
+        jobIds,
+        shouldStop: () => stopRef.current,
+        // Windows of a paused or cancelled job are left pending
+        isHeld: (run) => !!jobsByRun[run.id] && !!jobControlRef.current[jobsByRun[run.id].id],
+        onBatch: async (run, { kept, dropped, quarantined: failed }) => {
+          setNewsData(prev => [...prev, ...kept]);
+          setDroppedDuplicates(prev => [...dropped, ...prev]);
+          setQuarantined(prev => [...failed, ...prev]);
+          await storage.saveItems(run.datasetId, kept, run.config);
+          await storage.saveQuarantined(run.datasetId, failed);
+        },
+        onCheckpoint: async (run) => {
+          await storage.saveRun(run);
+          setRuns(prev => [{ ...run }, ...prev.filter(r => r.id !== run.id)]);
+        },
+        onProgress: (stats) => {
+          callSpend = totalCost(stats.usage);
+          setProgressStr(formatProgress(stats));
+        },
+      });
+      callSpend = totalCost(stats.usage);
+      budgetReachedRef.current = stats.budgetReached;
+      settleJobs();
+      setProgressStr(formatSummary(stats));
 
     } catch (err: any) {
+      settleJobs();
       if (err.message && err.message.includes("API Key is missing")) {
         try {
            if ((window as any).aistudio && (window as any).aistudio.openSelectKey) {
@@ -127,40 +221,281 @@ const App: React.FC = () => {
         setError(err.message || "An unexpected error occurred.");
       }
     } finally {
+      spentRef.current += callSpend;
       setIsGenerating(false);
       stopRef.current = false;
+      refreshDatasets();
+    }
+  };
+
+  const updateJobs = (updated: CrawlJob[]) => {
+    const byId = new Map(updated.map(job => [job.id, job]));
+    setJobs(prev => prev.map(job => byId.get(job.id) || job));
+    updated.forEach(job => storage.saveJob(job));
+  };
+
+  const handleQueueJobs = async (configs: GenerationConfig[], labelPrefix = '') => {
+    // Every batch is persisted as it arrives, so crawling needs an open dataset
+    if (!activeDatasetId) {
+      setError("No dataset is open, so collection is disabled. Local storage (IndexedDB) may be unavailable; reload once it is allowed.");
+      return;
+    }
+    const created: CrawlJob[] = configs.map(config => ({
+      id: `JOB-${Math.random().toString(36).substr(2, 9)}`,
+      datasetId: activeDatasetId,
+      label: `${labelPrefix}${describeConfig(config)}`,
+      config,
+      status: 'queued',
+      createdAt: new Date().toISOString()
+    }));
+    setJobs(prev => [...prev, ...created]);
+    await Promise.all(created.map(job => storage.saveJob(job)));
+  };
+
+  // Start the given jobs together; a paused or failed job picks up its existing run where it left off
+  const startQueuedJobs = (queued: CrawlJob[]) => {
+    if (!activeDatasetId) return;
+    const jobsByRun: Record<string, CrawlJob> = {};
+    const runList = queued.map(job => {
+      const existing = job.runId ? runs.find(r => r.id === job.runId) : undefined;
+      const run = existing ? { ...existing, chunks: existing.chunks.map(c => ({ ...c })) } : createRun(activeDatasetId, job.config);
+      jobsByRun[run.id] = { ...job, runId: run.id, status: 'running' };
+      return run;
+    });
+    // Flip both before any await so the queue effect doesn't start the same jobs twice
+    setIsGenerating(true);
+    updateJobs(Object.values(jobsByRun));
+    executeRuns(runList, jobExecution, jobsByRun);
+  };
+
+  useEffect(() => {
+    if (isGenerating || !activeDatasetId) return;
+    const queued = jobs.filter(job => job.status === 'queued');
+    // Like Stop, the budget holds the whole queue; resuming a job starts a new budget
+    if (budgetReachedRef.current) {
+      budgetReachedRef.current = false;
+      updateJobs(queued.map(job => ({ ...job, status: 'paused' })));
+      return;
+    }
+    if (queued.length) startQueuedJobs(jobExecution === 'interleaved' ? queued : queued.slice(0, 1));
+    else spentRef.current = 0;
+  }, [isGenerating, jobs, activeDatasetId]);
+
+  const handlePauseJob = (job: CrawlJob) => {
+    if (job.status === 'running') jobControlRef.current[job.id] = 'paused';
+    updateJobs([{ ...job, status: 'paused' }]);
+  };
+
+  const handleResumeJob = (job: CrawlJob) => {
+    delete jobControlRef.current[job.id];
+    updateJobs([{ ...job, status: 'queued' }]);
+  };
+
+  const handleCancelJob = (job: CrawlJob) => {
+    if (job.status === 'running') jobControlRef.current[job.id] = 'cancelled';
+    updateJobs([{ ...job, status: 'cancelled' }]);
+  };
+
+  const handleRemoveJob = async (job: CrawlJob) => {
+    setJobs(prev => prev.filter(j => j.id !== job.id));
+    await storage.deleteJob(job.id);
+  };
+
+  // Queue a crawl for one gap, reusing the mode of the scope picked in the coverage chart
+  const handleCrawlWindow = (scope: GenerationConfig, start: string, end: string, itemsPerDay: number) => {
+    handleQueueJobs([{ ...scope, startDate: start, endDate: end, itemsPerDay }], 'Gap: ');
+  };
+
+  // Queue one job per crawled scope covering only the dates after its latest item; returns how many were queued
+  const handleUpdateDataset = async () => {
+    const today = new Date().toISOString().split('T')[0];
+    const configs = planUpdates(newsData, runs, today);
+    await handleQueueJobs(configs, 'Update: ');
+    return configs.length;
+  };
+
+  // Re-run only the pending or failed windows of an earlier run
+  const handleResumeRun = async (runId: string) => {
+    const run = runs.find(r => r.id === runId);
+    if (!run) return;
+    const job = jobs.find(j => j.runId === runId);
+    await executeRuns(
+      [{ ...run, chunks: run.chunks.map(c => ({ ...c })) }],
+      'sequential',
+      job ? { [runId]: { ...job, status: 'running' } } : {}
+    );
+  };
+
+  const handleDiscardRun = async (runId: string) => {
+    await storage.deleteRun(runId);
+    setRuns(prev => prev.filter(r => r.id !== runId));
+  };
+
+  // Re-derive the FinBERT text of the whole dataset from headline/summary, as an undoable edit like bulk re-tags
+  const handleTextTemplateChange = (template: TextTemplate) => {
+    setTextTemplate(template);
+    storage.setPreference('textTemplate', template);
+    const changed = newsData
+      .map(item => applyTextTemplate(item, template))
+      .filter((item, i) => item.text !== newsData[i].text);
+    if (changed.length) handleUpdate(changed, `Apply text template to ${changed.length} item(s)`);
+  };
+
+  // Merge imported rows into the open dataset, deduplicated like crawled batches
+  const handleImportItems = async (items: NewsItem[]) => {
+    if (!activeDatasetId) return { added: 0, duplicates: 0 };
+
+    // Ids are global in the store; re-key rows that would overwrite another dataset's items
+    const taken = await storage.findExistingIds(items.map(item => item.id));
+    const rekeyed = items.map(item => taken.has(item.id) ? { ...item, id: `IMP-${Math.random().toString(36).substr(2, 9)}` } : item)
+      // Keep pillars/topics that came with the file, otherwise tag them with the keyword classifier
+      .map(item => item.pillars?.length ? item : classifyItem(item));
+
+    const { kept, dropped } = createDedupIndex(newsData, dedupOptions).filter(rekeyed);
+    await storage.saveItems(activeDatasetId, kept);
+    setNewsData(prev => [...prev, ...kept].sort((a, b) => a.time.localeCompare(b.time)));
+    setDroppedDuplicates(prev => [...dropped, ...prev]);
+    refreshDatasets();
+    return { added: kept.length, duplicates: dropped.length };
+  };
+
+  // A dropped duplicate the reviewer decided to keep after all
+  const handleRestoreDuplicate = async (dup: DroppedDuplicate) => {
+    setDroppedDuplicates(prev => prev.filter(d => d.item.id !== dup.item.id));
+    setNewsData(prev => [...prev, dup.item]);
+    if (activeDatasetId) {
+      await storage.saveItems(activeDatasetId, [dup.item]);
+      refreshDatasets();
+    }
+  };
+
+  // A quarantined item the reviewer decided to keep despite failing validation
+  const handleRestoreQuarantined = async (entry: QuarantinedItem) => {
+    setQuarantined(prev => prev.filter(q => q.item.id !== entry.item.id));
+    setNewsData(prev => [...prev, entry.item]);
+    if (activeDatasetId) {
+      await storage.saveItems(activeDatasetId, [entry.item]);
+      await storage.deleteQuarantined([entry.item.id]);
+      refreshDatasets();
     }
   };
 
+  const handleClearQuarantined = async () => {
+    setQuarantined([]);
+    if (activeDatasetId) await storage.clearQuarantined(activeDatasetId);
+  };
+
+  const handleRateLimitsChange = (options: RateLimitOptions) => {
+    setRateLimits(options);
+    configureRateLimits(options);
+    storage.setPreference('rateLimits', options);
+  };
+
+  const handleValidationOptionsChange = (options: ValidationOptions) => {
+    setValidationOptions(options);
+    storage.setPreference('validationOptions', options);
+  };
+
+  // Apply an edit to state and storage; `record` pushes it onto the undo stack
+  const applyChange = async (change: EditChange, record: boolean) => {
+    setNewsData(prev => applyChangeToItems(prev, change));
+    if (record) {
+      setUndoStack(prev => [...prev.slice(-(MAX_HISTORY - 1)), change]);
+      setRedoStack([]);
+    }
+    if (activeDatasetId) {
+      const removedIds = deletedIds(change);
+      if (removedIds.length) await storage.deleteItems(activeDatasetId, removedIds);
+      await storage.updateItems(activeDatasetId, change.added);
+      refreshDatasets();
+    }
+  };
+
+  const handleUndo = () => {
+    const change = undoStack[undoStack.length - 1];
+    if (!change) return;
+    setUndoStack(prev => prev.slice(0, -1));
+    setRedoStack(prev => [...prev, change]);
+    applyChange(invertChange(change), false);
+  };
+
+  const handleRedo = () => {
+    const change = redoStack[redoStack.length - 1];
+    if (!change) return;
+    setRedoStack(prev => prev.slice(0, -1));
+    setUndoStack(prev => [...prev, change]);
+    applyChange(change, false);
+  };
+
   // Handle Deletion
-  const handleDelete = (id: string) => {
-    setNewsData(prev => prev.filter(item => item.id !== id));
+  const handleDelete = (ids: string[]) => {
+    const removed = newsData.filter(item => ids.includes(item.id));
+    if (removed.length === 0) return;
+    applyChange({ label: `Delete ${removed.length} item(s)`, removed, added: [] }, true);
+  };
+
+  // Inline edits and bulk re-tags arrive as new versions of existing items
+  const handleUpdate = (updated: NewsItem[], label: string) => {
+    const ids = new Set(updated.map(item => item.id));
+    const removed = newsData.filter(item => ids.has(item.id));
+    applyChange({ label, removed, added: updated }, true);
+  };
+
+  // Classification runs as a regular edit so it can be undone
+  const handleClassifyLexicon = () => {
+    handleUpdate(newsData.map(classifyItem), `Classify ${newsData.length} item(s)`);
+  };
+
+  const handleClassifyLLM = async (providerId: string) => {
+    const provider = getProvider(providerId);
+    if (!provider.classify) throw new Error(`${provider.label} cannot classify items.`);
+    const results = await provider.classify(newsData);
+    const updated = applyClassifications(newsData, results, provider.id);
+    const changed = updated.filter((item, i) => item !== newsData[i]);
+    if (changed.length) handleUpdate(changed, `Classify ${changed.length} item(s) with ${provider.label}`);
+  };
+
+  const handleAnnotatorChange = (name: string) => {
+    setAnnotator(name);
+    storage.setPreference('annotator', name);
+  };
+
+  const handleImportLabelSet = async (file: File, name: string) => {
+    if (!activeDatasetId) return { labels: 0, rejected: 0 };
+    const parsed = parseImportFile(await file.text(), file.name);
+    const { labelSet, rejected } = parseLabelSet(parsed, name, activeDatasetId);
+    await storage.saveLabelSet(labelSet);
+    setLabelSets(await storage.listLabelSets(activeDatasetId));
+    return { labels: Object.keys(labelSet.labels).length, rejected: rejected.length };
+  };
+
+  const handleDeleteLabelSet = async (id: string) => {
+    await storage.deleteLabelSet(id);
+    setLabelSets(prev => prev.filter(set => set.id !== id));
   };
 
-  // Handle CSV Download
+  // Open the export dialog
   const handleDownload = () => {
     if (newsData.length === 0) return;
+    setIsExportOpen(true);
+  };
 
-    // Format: Time, Sample ID, text
-    const headers = ["Time,Sample ID,text,source"];
-    const rows = newsData.map(item => {
-      // Escape quotes in text to prevent CSV breakage
-      const safeText = `"${item.text.replace(/"/g, '""')}"`;
-      const safeSource = `"${(item.source || '').replace(/"/g, '""')}"`;
-      return `${item.time},${item.id},${safeText},${safeSource}`;
-    });
+  const handleExport = async (options: ExportOptions) => {
+    setExportOptions(options);
+    storage.setPreference('exportOptions', options);
+    setIsExportOpen(false);
 
-    const csvContent = [headers, ...rows].join("\n");
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", `sp500_esg_news_${new Date().toISOString().slice(0,10)}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    try {
+      const datasetName = datasets.find(d => d.id === activeDatasetId)?.name || 'dataset';
+      const { blob, fileName } = await exportDataset(newsData, options, datasetName);
+      downloadBlob(blob, fileName);
+      // Provenance travels with the data: config, prompts, models and per-window metadata of every run
+      const manifest = exportManifest(newsData, runs, { dataset: datasetName, file: fileName, format: options.format });
+      downloadBlob(manifest.blob, manifest.fileName);
+    } catch (err: any) {
+      console.error("Export failed", err);
+      setError(`Export failed: ${err.message || err}`);
+    }
   };
 
   return (
@@ -213,13 +548,49 @@ const App: React.FC = () => {
           
           {/* Sidebar Controls */}
           <div className="lg:col-span-4 xl:col-span-3 mb-8 lg:mb-0">
+            <DatasetPicker
+              datasets={datasets}
+              activeId={activeDatasetId}
+              disabled={isGenerating}
+              onOpen={openDataset}
+              onCreate={handleCreateDataset}
+              onRename={handleRenameDataset}
+              onDelete={handleDeleteDataset}
+              onImport={() => setIsImportOpen(true)}
+            />
             <ControlPanel 
-              onStartSequence={handleSequenceGenerate} 
+              onQueueJobs={handleQueueJobs}
+              onUpdateDataset={handleUpdateDataset}
+              canUpdate={runs.length > 0}
+              jobExecution={jobExecution}
+              onJobExecutionChange={(execution) => { setJobExecution(execution); storage.setPreference('jobExecution', execution); }}
               onStop={handleStop}
               isGenerating={isGenerating}
               progressStr={progressStr}
               onDownload={handleDownload}
               dataCount={newsData.length}
+              textTemplate={textTemplate}
+              onTextTemplateChange={handleTextTemplateChange}
+              rateLimits={rateLimits}
+              onRateLimitsChange={handleRateLimitsChange}
+              budget={budget}
+              onBudgetChange={(value) => { setBudget(value); storage.setPreference('costBudget', value ?? null); }}
+            />
+
+            <JobQueue
+              jobs={jobs}
+              runs={runs}
+              onPause={handlePauseJob}
+              onResume={handleResumeJob}
+              onCancel={handleCancelJob}
+              onRemove={handleRemoveJob}
+            />
+
+            <RunHistory
+              runs={runs}
+              isGenerating={isGenerating}
+              onResume={handleResumeRun}
+              onDiscard={handleDiscardRun}
             />
             
             <div className="mt-6 bg-blue-50 rounded-xl p-4 border border-blue-100 text-sm text-blue-800">
@@ -229,24 +600,113 @@ const App: React.FC = () => {
                </h3>
                <p className="mb-2">1. Select <b>Google Crawler</b> mode.</p>
                <p className="mb-2">2. Set Density (e.g. 1.25).</p>
-               <p className="mb-2">3. The app now uses <b>Parallel Processing</b> (3 concurrent spiders) and <b>Dynamic Windowing</b>.</p>
-               <p className="mb-2">4. Speed is ~3x-5x faster than before.</p>
+               <p className="mb-2">3. Windows run in <b>parallel</b>: the scheduler raises concurrency up to <b>Max parallel</b> (Rate Limits) while requests succeed and backs off on quota errors.</p>
+               <p className="mb-2">4. <b>Dynamic Windowing</b> sizes each request to ~25 items and tops up windows that come back short.</p>
             </div>
           </div>
 
           {/* Data Table */}
           <div className="lg:col-span-8 xl:col-span-9">
             <div className="flex items-center justify-between mb-4">
-               <h2 className="text-lg font-bold text-slate-800">Dataset Preview</h2>
+               <div className="flex items-center gap-4">
+                 <h2 className="text-lg font-bold text-slate-800">{view === 'label' ? 'Labeling' : 'Dataset Browser'}</h2>
+                 <div className="flex bg-slate-100 p-1 rounded-lg text-sm">
+                   {(['browse', 'label'] as const).map(v => (
+                     <button
+                       key={v}
+                       onClick={() => setView(v)}
+                       className={`py-1 px-3 rounded-md font-medium transition-all ${view === v ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-indigo-200' : 'text-slate-500 hover:text-slate-700'}`}
+                     >
+                       {v === 'browse' ? 'Browse' : 'Label'}
+                     </button>
+                   ))}
+                 </div>
+               </div>
                <span className="bg-indigo-100 text-indigo-800 text-xs font-semibold mr-2 px-2.5 py-0.5 rounded border border-indigo-200">
                  {newsData.length} Records
                </span>
             </div>
-            <NewsTable data={newsData} onDelete={handleDelete} />
+            {view === 'browse' ? (
+              <>
+                <CoverageChart
+                  data={newsData}
+                  runs={runs}
+                  queuedCount={jobs.filter(job => job.status === 'queued').length}
+                  onCrawlWindow={handleCrawlWindow}
+                />
+                <NewsTable
+                  data={newsData}
+                  onDelete={handleDelete}
+                  onUpdate={handleUpdate}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
+                  undoLabel={undoStack[undoStack.length - 1]?.label}
+                  redoLabel={redoStack[redoStack.length - 1]?.label}
+                  jobs={jobs}
+                />
+                <PillarBalance
+                  data={newsData}
+                  onClassifyLexicon={handleClassifyLexicon}
+                  onClassifyLLM={handleClassifyLLM}
+                />
+                <QuarantineReview
+                  options={validationOptions}
+                  onOptionsChange={handleValidationOptionsChange}
+                  quarantined={quarantined}
+                  onRestore={handleRestoreQuarantined}
+                  onClear={handleClearQuarantined}
+                />
+                <DedupReview
+                  options={dedupOptions}
+                  onOptionsChange={setDedupOptions}
+                  dropped={droppedDuplicates}
+                  data={newsData}
+                  onRestore={handleRestoreDuplicate}
+                  onClear={() => setDroppedDuplicates([])}
+                />
+              </>
+            ) : (
+              <>
+                <LabelingView
+                  data={newsData}
+                  annotator={annotator}
+                  onAnnotatorChange={handleAnnotatorChange}
+                  onUpdate={handleUpdate}
+                />
+                {activeDatasetId && (
+                  <AgreementPanel
+                    data={newsData}
+                    datasetId={activeDatasetId}
+                    annotator={annotator}
+                    labelSets={labelSets}
+                    onImportLabelSet={handleImportLabelSet}
+                    onDeleteLabelSet={handleDeleteLabelSet}
+                  />
+                )}
+              </>
+            )}
           </div>
           
         </div>
       </main>
+
+      {isImportOpen && (
+        <ImportDialog
+          defaultTicker="Imported"
+          onImport={handleImportItems}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
+      {isExportOpen && (
+        <ExportDialog
+          initialOptions={exportOptions}
+          datasetName={datasets.find(d => d.id === activeDatasetId)?.name || 'dataset'}
+          itemCount={newsData.length}
+          onExport={handleExport}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,258 @@
+// Headless collector for scheduled runs: the app's crawl loop without a browser.
+// Usage: npm run collect -- --config collect.json [--fresh] [--update]
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import {
+  CrawlRun,
+  DateFormat,
+  DedupOptions,
+  ExportColumn,
+  ExportFormat,
+  GenerationConfig,
+  GenerationMode,
+  JobExecution,
+  NewsItem,
+  PromptPreset,
+  RateLimitOptions,
+  SyntheticTargets,
+  TextTemplate,
+  ValidationOptions
+} from '../types';
+import { createRun, describeConfig, getRemainingChunks, planUpdate } from '../services/crawlPlan';
+import { crawlRuns, formatProgress, formatSummary } from '../services/crawler';
+import { DEFAULT_DEDUP_OPTIONS } from '../services/dedupService';
+import { DEFAULT_VALIDATION_OPTIONS } from '../services/validationService';
+import { configureRateLimits, DEFAULT_RATE_LIMITS } from '../services/rateLimiter';
+import { DEFAULT_TEXT_TEMPLATE } from '../services/textTemplate';
+import { DEFAULT_EXPORT_OPTIONS, EXPORT_FIELDS, exportDataset } from '../services/exportService';
+import { expandScope, parseConstituents } from '../services/constituentsService';
+import { loadArchiveFiles } from '../services/providers/archiveProvider';
+import { exportManifest } from '../services/manifestService';
+import { addPresets, resolvePreset } from '../services/promptPresets';
+import { formatMixReport, mixReport } from '../services/syntheticMix';
+import { estimatePlan, formatCost, formatUsage } from '../services/costService';
+
+interface CollectConfig {
+  scopes: string[];
+  startDate: string;
+  endDate: string;              // YYYY-MM-DD, or "today"
+  mode?: string;                // NewsProvider id
+  itemsPerDay?: number;
+  presets?: PromptPreset[];     // Prompt/model presets available to this config
+  presetId?: string;            // Preset to crawl with; defaults to the mode's built-in one
+  synthetic?: SyntheticTargets; // SYNTHETIC mode: sentiment/pillar/publisher mix and injected events
+  budget?: number;              // USD cap for this invocation
+  output: string;               // Path + file name pattern without extension, e.g. "out/sp500_esg_{date}"
+  formats?: ExportFormat[];
+  dateFormat?: DateFormat;
+  columns?: string[];           // Export field keys in order; defaults to the app's default columns
+  state?: string;               // Resumable state file; defaults to "<output dir>/collect.state.json"
+  constituents?: string;        // Point-in-time membership CSV/JSONL
+  perCompany?: boolean;         // Expand index/sector scopes into per-company runs
+  update?: boolean;             // Only crawl the dates after what each scope already covers
+  archives?: string[];          // RSS/Atom/JSONL files for the ARCHIVE provider
+  execution?: JobExecution;
+  textTemplate?: TextTemplate;
+  dedup?: Partial<DedupOptions>;
+  validation?: Partial<ValidationOptions>;
+  rateLimits?: Partial<RateLimitOptions>;
+}
+
+interface StateFile {
+  runs: CrawlRun[];
+  updatedAt: string;
+}
+
+const DATASET_ID = 'cli';
+
+const parseArgs = (argv: string[]) => {
+  const args: { config?: string; fresh: boolean; update: boolean } = { fresh: false, update: false };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--config' || argv[i] === '-c') args.config = argv[++i];
+    else if (argv[i] === '--fresh') args.fresh = true;
+    else if (argv[i] === '--update') args.update = true;
+    else if (!args.config) args.config = argv[i];
+  }
+  return args;
+};
+
+const readJson = async <T>(file: string): Promise<T> => JSON.parse(await readFile(file, 'utf8'));
+
+// Write to a temp file first so a crash never leaves a half-written state file
+const writeJsonAtomic = async (file: string, data: unknown) => {
+  const tmp = `${file}.tmp`;
+  await writeFile(tmp, JSON.stringify(data, null, 2));
+  await rename(tmp, file);
+};
+
+const readItems = async (file: string): Promise<NewsItem[]> => {
+  if (!existsSync(file)) return [];
+  return (await readFile(file, 'utf8')).split('\n').filter(Boolean).map(line => JSON.parse(line));
+};
+
+// Runs are matched to configs by their label, so re-running the same config file resumes them
+const sameConfig = (a: GenerationConfig, b: GenerationConfig) =>
+  describeConfig(a) === describeConfig(b) && a.itemsPerDay === b.itemsPerDay && JSON.stringify(a.synthetic) === JSON.stringify(b.synthetic);
+
+// Field keys from the config, in that order; unknown keys are a config error
+const exportColumns = (keys: string[]): ExportColumn[] => keys.map(key => {
+  const field = EXPORT_FIELDS.find(f => f.key === key);
+  if (!field) throw new Error(`Unknown export column "${key}". Known: ${EXPORT_FIELDS.map(f => f.key).join(', ')}`);
+  return { key, header: field.label, enabled: true };
+});
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.config) {
+    console.error('Usage: npm run collect -- --config <collect.json> [--fresh] [--update]');
+    process.exit(64);
+  }
+
+  const configDir = path.dirname(path.resolve(args.config));
+  const resolve = (p: string) => path.resolve(configDir, p);
+  const config = await readJson<CollectConfig>(args.config);
+  if (!config.scopes?.length || !config.startDate || !config.endDate || !config.output) {
+    throw new Error('Config needs scopes, startDate, endDate and output.');
+  }
+  const columns = config.columns ? exportColumns(config.columns) : DEFAULT_EXPORT_OPTIONS.columns;
+
+  // The browser build injects the key at build time; here it comes from the environment
+  process.env.API_KEY = process.env.API_KEY || process.env.GEMINI_API_KEY;
+
+  const outputDir = path.dirname(resolve(config.output));
+  const statePath = config.state ? resolve(config.state) : path.join(outputDir, 'collect.state.json');
+  const itemsPath = statePath.replace(/\.json$/, '') + '.items.jsonl';
+  await mkdir(outputDir, { recursive: true });
+  await mkdir(path.dirname(statePath), { recursive: true });
+
+  if (config.rateLimits) configureRateLimits({ ...DEFAULT_RATE_LIMITS, ...config.rateLimits });
+
+  if (config.archives?.length) {
+    const files = await Promise.all(config.archives.map(async p => new File([await readFile(resolve(p))], path.basename(p))));
+    console.log(`Loaded ${await loadArchiveFiles(files)} archive entries`);
+  }
+
+  if (config.presets?.length) addPresets(config.presets);
+  const mode = config.mode || GenerationMode.SYNTHETIC;
+  // Fail before crawling anything if the preset is missing
+  if (config.presetId) resolvePreset(mode, config.presetId);
+
+  const endDate = config.endDate === 'today' ? new Date().toISOString().split('T')[0] : config.endDate;
+  const base = {
+    startDate: config.startDate,
+    endDate,
+    mode,
+    itemsPerDay: config.itemsPerDay ?? 1.5,
+    ...(config.presetId && { presetId: config.presetId }),
+    ...(config.synthetic && { synthetic: config.synthetic }),
+  };
+
+  const constituents = config.constituents
+    ? parseConstituents(await readFile(resolve(config.constituents), 'utf8'), config.constituents).constituents
+    : [];
+  const planned = config.scopes.flatMap(ticker => {
+    const scoped: GenerationConfig = { ...base, ticker };
+    return (config.perCompany && expandScope(scoped, constituents)) || [scoped];
+  });
+
+  // Resume from the state file unless asked to start over
+  const state: StateFile = !args.fresh && existsSync(statePath)
+    ? await readJson<StateFile>(statePath)
+    : { runs: [], updatedAt: new Date().toISOString() };
+  if (args.fresh) await writeFile(itemsPath, '');
+  const existing = await readItems(itemsPath);
+
+  // Update mode narrows each scope to the dates after its latest item, so nightly runs stay cheap
+  const configs = args.update || config.update
+    ? planned.map(c => planUpdate(c, existing, state.runs, endDate)).filter((c): c is GenerationConfig => c !== null)
+    : planned;
+  if (args.update || config.update) console.log(`${planned.length - configs.length} of ${planned.length} scope(s) already up to date`);
+
+  const runs = configs.map(c => state.runs.find(r => sameConfig(r.config, c)) || createRun(DATASET_ID, c));
+  state.runs = [...state.runs.filter(r => !runs.includes(r)), ...runs];
+  const pending = runs.filter(r => getRemainingChunks(r).length > 0);
+  console.log(`${configs.length} run(s), ${pending.length} with windows left, ${existing.length} items already collected`);
+  const estimate = estimatePlan(pending.map(run => ({ config: run.config, chunks: getRemainingChunks(run) })));
+  if (estimate.length) {
+    console.log(`Estimated cost: ~${formatUsage(estimate)}${config.budget !== undefined ? `, budget ${formatCost(config.budget)}` : ''} (before top-ups and retries)`);
+  }
+
+  let stop = false;
+  process.on('SIGINT', () => {
+    if (stop) process.exit(130);
+    stop = true;
+    console.log('\nStopping after in-flight windows finish (Ctrl+C again to abort)...');
+  });
+
+  // Checkpoints from parallel workers are chained so state writes never interleave
+  let saving = Promise.resolve();
+  const saveState = () => {
+    saving = saving.then(() => writeJsonAtomic(statePath, { ...state, updatedAt: new Date().toISOString() }));
+    return saving;
+  };
+
+  const collected = [...existing];
+  let lastProgress = 0;
+  let exitCode = 0;
+
+  try {
+    const stats = await crawlRuns(pending, {
+      existing,
+      dedup: { ...DEFAULT_DEDUP_OPTIONS, ...config.dedup },
+      validation: { ...DEFAULT_VALIDATION_OPTIONS, ...config.validation },
+      textTemplate: config.textTemplate || DEFAULT_TEXT_TEMPLATE,
+      maxConcurrency: config.rateLimits?.maxConcurrency ?? DEFAULT_RATE_LIMITS.maxConcurrency,
+      budget: config.budget,
+      execution: config.execution,
+      shouldStop: () => stop,
+      onBatch: async (_run, { kept }) => {
+        collected.push(...kept);
+        if (kept.length) await appendFile(itemsPath, kept.map(item => JSON.stringify(item)).join('\n') + '\n');
+      },
+      onCheckpoint: saveState,
+      onProgress: (stats) => {
+        // Throttle to one line every few seconds; cron logs don't need every tick
+        if (Date.now() - lastProgress < 5000) return;
+        lastProgress = Date.now();
+        console.log(formatProgress(stats));
+      },
+    });
+    console.log(formatSummary(stats));
+    runs.forEach(run => {
+      const mix = mixReport(run);
+      if (mix.length) console.log(`Mix for ${describeConfig(run.config)} (achieved/requested): ${formatMixReport(mix, run.mix?.total || 0)}`);
+    });
+    if (stats.stopped) exitCode = 130;
+    else if (stats.budgetReached) exitCode = 3;
+    else if (stats.errors > 0) exitCode = 2;
+  } catch (err: any) {
+    console.error(`Collection failed: ${err?.message || err}`);
+    exitCode = 1;
+  }
+  await saving;
+
+  // Export whatever has been collected, including partial runs
+  const sorted = collected.sort((a, b) => a.time.localeCompare(b.time));
+  for (const format of config.formats || [ExportFormat.CSV]) {
+    const { blob, fileName } = await exportDataset(sorted, {
+      ...DEFAULT_EXPORT_OPTIONS,
+      format,
+      dateFormat: config.dateFormat || DEFAULT_EXPORT_OPTIONS.dateFormat,
+      columns,
+      fileNamePattern: path.basename(config.output),
+    }, 'cli');
+    const file = path.join(outputDir, fileName);
+    await writeFile(file, Buffer.from(await blob.arrayBuffer()));
+    const manifest = exportManifest(sorted, state.runs, { dataset: 'cli', file: fileName, format });
+    await writeFile(path.join(outputDir, manifest.fileName), Buffer.from(await manifest.blob.arrayBuffer()));
+    console.log(`Wrote ${sorted.length} items to ${file} (+ ${manifest.fileName})`);
+  }
+
+  process.exit(exitCode);
+};
+
+main().catch(err => {
+  console.error(err?.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { LabelSet, NewsItem } from '../types';
+import { computeAgreement, LabelField, labelSetFromItems } from '../services/labelingService';
+
+interface AgreementPanelProps {
+  data: NewsItem[];
+  datasetId: string;
+  annotator: string;
+  labelSets: LabelSet[];
+  onImportLabelSet: (file: File, annotator: string) => Promise<{ labels: number; rejected: number }>;
+  onDeleteLabelSet: (id: string) => void;
+}
+
+const formatScore = (value: number) => (isNaN(value) ? '—' : value.toFixed(2));
+
+// Landis & Koch bands, the usual way kappa is reported
+const kappaBand = (kappa: number) => {
+  if (isNaN(kappa)) return '';
+  if (kappa < 0.2) return 'slight';
+  if (kappa < 0.4) return 'fair';
+  if (kappa < 0.6) return 'moderate';
+  if (kappa < 0.8) return 'substantial';
+  return 'almost perfect';
+};
+
+export const AgreementPanel: React.FC<AgreementPanelProps> = ({
+  data,
+  datasetId,
+  annotator,
+  labelSets,
+  onImportLabelSet,
+  onDeleteLabelSet
+}) => {
+  const [importAnnotator, setImportAnnotator] = useState('');
+  const [includeLocal, setIncludeLocal] = useState(true);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const localSet = labelSetFromItems(data, datasetId, annotator || 'Me');
+  const sets = includeLocal && Object.keys(localSet.labels).length > 0 ? [localSet, ...labelSets] : labelSets;
+
+  const handleFile = async (file: File) => {
+    const name = importAnnotator.trim() || file.name.replace(/\.[^.]+$/, '');
+    try {
+      const { labels, rejected } = await onImportLabelSet(file, name);
+      setMessage(`Imported ${labels} labels from ${name}${rejected ? ` (${rejected} rows rejected)` : ''}.`);
+      setImportAnnotator('');
+    } catch (err: any) {
+      setMessage(err.message || 'Import failed.');
+    }
+  };
+
+  const renderField = (field: LabelField, title: string) => {
+    const { pairs, fleiss } = computeAgreement(sets, field);
+    return (
+      <div>
+        <h4 className="text-xs font-semibold text-slate-700 mb-1">{title}</h4>
+        {pairs.length === 0 ? (
+          <p className="text-xs text-slate-400">Needs at least two label sets.</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead className="text-slate-500">
+              <tr>
+                <th className="text-left font-medium py-1">Annotators</th>
+                <th className="text-right font-medium">Overlap</th>
+                <th className="text-right font-medium">Agreement</th>
+                <th className="text-right font-medium">Cohen's κ</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-700">
+              {pairs.map(p => (
+                <tr key={`${p.a}-${p.b}`} className="border-t border-slate-100">
+                  <td className="py-1">{p.a} × {p.b}</td>
+                  <td className="text-right">{p.n}</td>
+                  <td className="text-right">{isNaN(p.agreement) ? '—' : `${Math.round(p.agreement * 100)}%`}</td>
+                  <td className="text-right" title={kappaBand(p.kappa)}>{formatScore(p.kappa)}</td>
+                </tr>
+              ))}
+              {sets.length > 2 && (
+                <tr className="border-t border-slate-200 font-medium">
+                  <td className="py-1">Fleiss' κ (all {sets.length})</td>
+                  <td className="text-right">{fleiss.n}</td>
+                  <td />
+                  <td className="text-right" title={kappaBand(fleiss.kappa)}>{formatScore(fleiss.kappa)}</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-lg border border-slate-200 shadow-sm p-4 space-y-4">
+      <h3 className="text-sm font-semibold text-slate-800">Inter-Annotator Agreement</h3>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <input
+          type="text"
+          placeholder="Annotator (default: file name)"
+          value={importAnnotator}
+          onChange={(e) => setImportAnnotator(e.target.value)}
+          className="rounded border-slate-300 border px-2 py-1 w-52"
+        />
+        <input
+          type="file"
+          accept=".csv,.jsonl,.json"
+          onChange={(e) => { const file = e.target.files?.[0]; if (file) handleFile(file); e.target.value = ''; }}
+          className="text-xs text-slate-500 file:mr-2 file:py-1 file:px-2 file:rounded file:border-0 file:bg-indigo-50 file:text-indigo-700"
+        />
+        <label className="flex items-center gap-1 ml-auto text-slate-600">
+          <input type="checkbox" checked={includeLocal} onChange={(e) => setIncludeLocal(e.target.checked)} />
+          Include my labels ({Object.keys(localSet.labels).length})
+        </label>
+      </div>
+      {message && <p className="text-xs text-slate-500">{message}</p>}
+
+      {labelSets.length > 0 && (
+        <ul className="text-xs text-slate-600 divide-y divide-slate-100 border border-slate-100 rounded">
+          {labelSets.map(set => (
+            <li key={set.id} className="flex items-center justify-between px-2 py-1">
+              <span><b>{set.annotator}</b> · {Object.keys(set.labels).length} labels</span>
+              <button onClick={() => onDeleteLabelSet(set.id)} className="text-slate-400 hover:text-red-600">Remove</button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {renderField('sentiment', 'Sentiment')}
+        {renderField('pillar', 'ESG Pillar')}
+      </div>
+    </div>
+  );
+};
@@ -1,28 +1,73 @@
-import React, { useState, useEffect } from 'react';
-import { GenerationMode, TARGET_SCOPES } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { GenerationConfig, GenerationMode, JobExecution, RateLimitOptions, SyntheticTargets, TARGET_SCOPES, TextTemplate } from '../types';
+import { TEXT_TEMPLATE_LABELS } from '../services/textTemplate';
+import { listProviders } from '../services/providers';
+import { loadArchiveFiles, clearArchive, getLoadedArchiveFiles } from '../services/providers/archiveProvider';
+import { clearConstituents, expandScope, getConstituents, listSectors, loadConstituentsFile } from '../services/constituentsService';
+import { getPreset, selectedPresetId, selectPreset, supportsPresets } from '../services/promptPresets';
+import { hasTargets } from '../services/syntheticMix';
+import { estimateConfigs, formatCost, formatUsage, totalCost } from '../services/costService';
+import { PromptPresetEditor } from './PromptPresetEditor';
+import { SyntheticMixEditor } from './SyntheticMixEditor';
 
 interface ControlPanelProps {
-  onStartSequence: (ticker: string, start: string, end: string, mode: GenerationMode, itemsPerDay: number) => void;
+  onQueueJobs: (configs: GenerationConfig[]) => void;
+  onUpdateDataset: () => Promise<number>;
+  canUpdate: boolean;
+  jobExecution: JobExecution;
+  onJobExecutionChange: (execution: JobExecution) => void;
   onStop: () => void;
   isGenerating: boolean;
   progressStr: string;
   onDownload: () => void;
   dataCount: number;
+  textTemplate: TextTemplate;
+  onTextTemplateChange: (template: TextTemplate) => void;
+  rateLimits: RateLimitOptions;
+  onRateLimitsChange: (options: RateLimitOptions) => void;
+  budget?: number;
+  onBudgetChange: (budget?: number) => void;
 }
 
+// Starting a crawl estimated above this without a budget cap asks for confirmation
+const LARGE_ESTIMATE_USD = 20;
+
+const daysBetween = (start: string, end: string) =>
+  Math.max(0, Math.ceil((new Date(end).getTime() - new Date(start).getTime()) / (1000 * 60 * 60 * 24)));
+
 export const ControlPanel: React.FC<ControlPanelProps> = ({ 
-  onStartSequence, 
+  onQueueJobs,
+  onUpdateDataset,
+  canUpdate,
+  jobExecution,
+  onJobExecutionChange,
   onStop,
   isGenerating, 
   progressStr,
   onDownload, 
-  dataCount 
+  dataCount,
+  textTemplate,
+  onTextTemplateChange,
+  rateLimits,
+  onRateLimitsChange,
+  budget,
+  onBudgetChange
 }) => {
-  const [ticker, setTicker] = useState(TARGET_SCOPES[0]);
+  const [selectedScopes, setSelectedScopes] = useState<string[]>([TARGET_SCOPES[0]]);
   const [customTicker, setCustomTicker] = useState('');
   const [startDate, setStartDate] = useState('2015-01-01');
   const [endDate, setEndDate] = useState('2025-11-01');
-  const [mode, setMode] = useState<GenerationMode>(GenerationMode.SYNTHETIC);
+  const [mode, setMode] = useState<string>(GenerationMode.SYNTHETIC);
+  const [archiveFiles, setArchiveFiles] = useState<string[]>(getLoadedArchiveFiles());
+  const [constituents, setConstituents] = useState(getConstituents());
+  const [constituentMessage, setConstituentMessage] = useState<string | null>(null);
+  const [perCompany, setPerCompany] = useState(false);
+  const [updateMessage, setUpdateMessage] = useState<string | null>(null);
+  const [presetIds, setPresetIds] = useState<Record<string, string>>({});
+  const [syntheticTargets, setSyntheticTargets] = useState<SyntheticTargets>({});
+
+  const providers = listProviders();
+  const activeProvider = providers.find(p => p.id === mode);
   const [itemsPerDay, setItemsPerDay] = useState(1.5);
   const [estimatedTotal, setEstimatedTotal] = useState(0);
 
@@ -35,9 +80,51 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
     setEstimatedTotal(Math.floor(diffDays * itemsPerDay));
   }, [startDate, endDate, itemsPerDay]);
 
+  // One job per selected scope plus each comma-separated custom ticker
+  const scopes = [...selectedScopes, ...customTicker.split(',').map(t => t.trim()).filter(Boolean)];
+
+  const toggleScope = (scope: string) =>
+    setSelectedScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+
+  const presetId = supportsPresets(mode) ? presetIds[mode] || selectedPresetId(mode) : undefined;
+  // Built-in presets stay implicit so existing configs keep matching
+  const configPresetId = presetId && !getPreset(presetId)?.builtIn ? presetId : undefined;
+
+  // Events without a description are still being filled in
+  const synthetic: SyntheticTargets = { ...syntheticTargets, events: syntheticTargets.events?.filter(e => e.description.trim()) };
+  const configSynthetic = mode === GenerationMode.SYNTHETIC && hasTargets(synthetic) ? synthetic : undefined;
+
+  const handleSelectPreset = (id: string) => {
+    selectPreset(mode, id);
+    setPresetIds(prev => ({ ...prev, [mode]: id }));
+  };
+
+  // With a membership table loaded, index and sector scopes can fan out into one job per company
+  const configs: GenerationConfig[] = useMemo(() => scopes.flatMap(ticker => {
+    const config: GenerationConfig = {
+      ticker, startDate, endDate, mode, itemsPerDay,
+      ...(configPresetId && { presetId: configPresetId }),
+      ...(configSynthetic && { synthetic: configSynthetic }),
+    };
+    return (perCompany && expandScope(config, constituents)) || [config];
+  }), [selectedScopes, customTicker, startDate, endDate, mode, itemsPerDay, configPresetId, syntheticTargets, perCompany, constituents]);
+
+  // API cost of the planned windows; top-ups and retries come on top. Planning a long range is not free, so only on changes
+  const estimate = useMemo(() => estimateConfigs(configs), [configs]);
+  const estimatedCost = totalCost(estimate);
+  const overBudget = budget !== undefined && estimatedCost > budget;
+
   const handleStart = () => {
-    const activeTicker = customTicker ? customTicker : ticker;
-    onStartSequence(activeTicker, startDate, endDate, mode, itemsPerDay);
+    if (budget === undefined && estimatedCost > LARGE_ESTIMATE_USD &&
+      !window.confirm(`This crawl is estimated to cost about ${formatCost(estimatedCost)} and no budget cap is set. Start anyway?`)) {
+      return;
+    }
+    onQueueJobs(configs);
+  };
+
+  const handleUpdate = async () => {
+    const queued = await onUpdateDataset();
+    setUpdateMessage(queued ? `Queued ${queued} update job${queued === 1 ? '' : 's'} up to today.` : 'Every scope is already up to date.');
   };
 
   return (
@@ -53,20 +140,19 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         
         {/* Target Scope Selection */}
         <div>
-          <label className="block text-sm font-medium text-slate-700 mb-1">Target Index / Scope</label>
-          <div className="flex gap-2">
-            <select 
-              value={ticker} 
-              onChange={(e) => { setTicker(e.target.value); setCustomTicker(''); }}
-              className="block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 border bg-slate-50"
-            >
-              {TARGET_SCOPES.map(t => <option key={t} value={t}>{t}</option>)}
-            </select>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Target Indexes / Scopes</label>
+          <div className="space-y-1 rounded-md border border-slate-300 bg-slate-50 p-2">
+            {TARGET_SCOPES.map(t => (
+              <label key={t} className="flex items-center gap-2 text-sm text-slate-700">
+                <input type="checkbox" checked={selectedScopes.includes(t)} onChange={() => toggleScope(t)} />
+                {t}
+              </label>
+            ))}
           </div>
           <div className="mt-2">
              <input
               type="text"
-              placeholder="Or custom (e.g., Russell 2000)"
+              placeholder="Custom, comma-separated (e.g., AAPL, MSFT)"
               value={customTicker}
               onChange={(e) => setCustomTicker(e.target.value)}
               className="block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 border"
@@ -74,6 +160,40 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
           </div>
         </div>
 
+        {/* Constituents */}
+        <div className="text-xs text-slate-600">
+          <label className="block text-sm font-medium text-slate-700 mb-1">Index Constituents</label>
+          <input
+            type="file"
+            accept=".csv,.jsonl,.json"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (!file) return;
+              const result = await loadConstituentsFile(file);
+              setConstituents(result.constituents);
+              setConstituentMessage(`${result.constituents.length} constituents loaded${result.rejected.length ? `, ${result.rejected.length} rows rejected` : ''}.`);
+            }}
+            className="block w-full text-xs text-slate-500 file:mr-2 file:py-1 file:px-2 file:rounded file:border-0 file:bg-indigo-50 file:text-indigo-700"
+          />
+          <p className="text-slate-500 mt-1">CSV/JSONL with ticker, name, sector and join/leave dates.</p>
+          {constituentMessage && <p className="text-slate-500 mt-1">{constituentMessage}</p>}
+          {constituents.length > 0 && (
+            <div className="mt-2 flex items-center justify-between">
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={perCompany} onChange={(e) => setPerCompany(e.target.checked)} />
+                Crawl per company ({constituents.length} tickers, {listSectors(constituents).length} sectors)
+              </label>
+              <button
+                onClick={() => { clearConstituents(); setConstituents([]); setPerCompany(false); setConstituentMessage(null); }}
+                className="text-slate-400 hover:text-red-600"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+        </div>
+
         {/* Date Range */}
         <div className="grid grid-cols-2 gap-2">
           <div>
@@ -100,26 +220,59 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         <div>
           <label className="block text-sm font-medium text-slate-700 mb-2">Crawler Mode</label>
           <div className="flex bg-slate-100 p-1 rounded-lg">
-            <button
-              onClick={() => setMode(GenerationMode.LIVE_SEARCH)}
-              className={`flex-1 py-1.5 px-3 rounded-md text-sm font-medium transition-all ${mode === GenerationMode.LIVE_SEARCH ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-indigo-200' : 'text-slate-500 hover:text-slate-700'}`}
-            >
-              Google Crawler
-            </button>
-            <button
-              onClick={() => setMode(GenerationMode.SYNTHETIC)}
-              className={`flex-1 py-1.5 px-3 rounded-md text-sm font-medium transition-all ${mode === GenerationMode.SYNTHETIC ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-indigo-200' : 'text-slate-500 hover:text-slate-700'}`}
-            >
-              Synthetic Data
-            </button>
+            {providers.map(provider => (
+              <button
+                key={provider.id}
+                onClick={() => setMode(provider.id)}
+                className={`flex-1 py-1.5 px-3 rounded-md text-sm font-medium transition-all ${mode === provider.id ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-indigo-200' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {provider.label}
+              </button>
+            ))}
           </div>
           <p className="text-xs text-slate-500 mt-2">
-            {mode === GenerationMode.LIVE_SEARCH 
-              ? "Principle: Uses Google Search to crawl the web for real historical articles, extracting headlines and sources like a scraping bot."
-              : "Principle: Uses Generative AI to simulate realistic financial news data patterns based on historical knowledge."}
+            {activeProvider?.description}
           </p>
+
+          {mode === GenerationMode.ARCHIVE && (
+            <div className="mt-3 text-xs text-slate-600">
+              <input
+                type="file"
+                multiple
+                accept=".xml,.rss,.atom,.jsonl,.json"
+                onChange={async (e) => {
+                  const files: File[] = e.target.files ? Array.from(e.target.files as ArrayLike<File>) : [];
+                  await loadArchiveFiles(files);
+                  setArchiveFiles(getLoadedArchiveFiles());
+                  e.target.value = '';
+                }}
+                className="block w-full text-xs text-slate-500 file:mr-2 file:py-1 file:px-2 file:rounded file:border-0 file:bg-indigo-50 file:text-indigo-700"
+              />
+              {archiveFiles.length > 0 && (
+                <div className="mt-2">
+                  <ul className="list-disc list-inside">
+                    {archiveFiles.map(f => <li key={f} className="truncate">{f}</li>)}
+                  </ul>
+                  <button
+                    onClick={() => { clearArchive(); setArchiveFiles([]); }}
+                    className="mt-1 text-slate-400 hover:text-red-600"
+                  >
+                    Clear archive
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
+        {presetId && (
+          <PromptPresetEditor mode={mode} presetId={presetId} onSelect={handleSelectPreset} disabled={isGenerating} />
+        )}
+
+        {mode === GenerationMode.SYNTHETIC && (
+          <SyntheticMixEditor value={syntheticTargets} onChange={setSyntheticTargets} startDate={startDate} endDate={endDate} disabled={isGenerating} />
+        )}
+
         {/* Density */}
         <div>
           <label className="block text-sm font-medium text-slate-700 mb-1">
@@ -137,22 +290,116 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             />
           </div>
           <p className="text-xs text-slate-500 mt-1">
-            Est. Total: ~{estimatedTotal.toLocaleString()} items
+            Est. Total: ~{(perCompany ? configs.reduce((sum, c) => sum + daysBetween(c.startDate, c.endDate) * c.itemsPerDay, 0) : estimatedTotal * Math.max(1, configs.length)).toLocaleString(undefined, { maximumFractionDigits: 0 })} items{configs.length > 1 && ` across ${configs.length} jobs`}
+          </p>
+          {estimate.length > 0 && (
+            <p
+              className={`text-xs mt-0.5 ${overBudget || (budget === undefined && estimatedCost > LARGE_ESTIMATE_USD) ? 'text-amber-600 font-medium' : 'text-slate-500'}`}
+              title={estimate.map(t => `${t.model}: ${t.requests} requests, ~${t.promptTokens.toLocaleString()} prompt / ~${t.outputTokens.toLocaleString()} output tokens, ~${t.searchCalls} searches`).join('\n')}
+            >
+              Est. Cost: ~{formatUsage(estimate)} for {estimate.reduce((sum, t) => sum + t.requests, 0).toLocaleString()} requests
+              {overBudget && ` · over the ${formatCost(budget)} budget, the crawl will stop there`}
+            </p>
+          )}
+        </div>
+
+        {/* Budget cap */}
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Budget Cap (USD)</label>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            placeholder="No cap"
+            value={budget ?? ''}
+            disabled={isGenerating}
+            onChange={(e) => onBudgetChange(e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0))}
+            className="block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 border"
+          />
+          <p className="text-xs text-slate-500 mt-1">
+            Applies to the whole job queue: no window starts that could take its spend past the cap, and waiting jobs are paused once it is reached. Stopped runs can be resumed later. Costs use list prices.
           </p>
         </div>
 
+        {/* FinBERT text template */}
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">FinBERT Text</label>
+          <select
+            value={textTemplate}
+            disabled={isGenerating}
+            onChange={(e) => onTextTemplateChange(e.target.value as TextTemplate)}
+            className="block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 border bg-slate-50"
+          >
+            {Object.values(TextTemplate).map(t => <option key={t} value={t}>{TEXT_TEMPLATE_LABELS[t]}</option>)}
+          </select>
+          <p className="text-xs text-slate-500 mt-1">
+            Derived from the stored headline and summary. Changing it rewrites the whole dataset.
+          </p>
+        </div>
+
+        {/* Rate limits */}
+        <details className="text-sm">
+          <summary className="font-medium text-slate-700 cursor-pointer">Rate Limits</summary>
+          <div className="grid grid-cols-3 gap-2 mt-2">
+            {([
+              ['requestsPerMinute', 'Req / min'],
+              ['tokensPerMinute', 'Tokens / min'],
+              ['maxConcurrency', 'Max parallel'],
+            ] as const).map(([key, label]) => (
+              <label key={key} className="text-xs text-slate-500">
+                {label}
+                <input
+                  type="number"
+                  min="1"
+                  value={rateLimits[key]}
+                  disabled={isGenerating}
+                  onChange={(e) => onRateLimitsChange({ ...rateLimits, [key]: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className="block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm p-1.5 border mt-0.5"
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 mt-1">
+            Parallelism adapts below the maximum: it halves on quota errors and slow responses and grows back while requests succeed.
+          </p>
+        </details>
+
         <hr className="border-slate-200" />
 
         {/* Actions */}
         <div className="space-y-3">
-          {!isGenerating ? (
-            <button
-              onClick={handleStart}
-              className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-            >
-              Start Crawler Sequence
-            </button>
-          ) : (
+          {configs.length > 1 && (
+            <div className="flex items-center justify-between text-xs text-slate-600">
+              <span>Run {configs.length} jobs</span>
+              <select
+                value={jobExecution}
+                onChange={(e) => onJobExecutionChange(e.target.value as JobExecution)}
+                className="rounded border-slate-300 border px-1.5 py-1"
+              >
+                <option value="sequential">One after another</option>
+                <option value="interleaved">Interleaved</option>
+              </select>
+            </div>
+          )}
+          <button
+            onClick={handleStart}
+            disabled={configs.length === 0}
+            className={`w-full flex justify-center py-2 px-4 border rounded-md shadow-sm text-sm font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed ${isGenerating ? 'border-indigo-300 text-indigo-700 bg-white hover:bg-indigo-50' : 'border-transparent text-white bg-indigo-600 hover:bg-indigo-700'}`}
+          >
+            {isGenerating
+              ? `Add ${configs.length} Job${configs.length === 1 ? '' : 's'} to Queue`
+              : configs.length > 1 ? `Start ${configs.length} Crawler Jobs` : 'Start Crawler Sequence'}
+          </button>
+          <button
+            onClick={handleUpdate}
+            disabled={!canUpdate}
+            title="Crawl each scope of this dataset from its latest collected date to today"
+            className="w-full flex justify-center py-2 px-4 border border-indigo-300 rounded-md shadow-sm text-sm font-medium text-indigo-700 bg-white hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Update Dataset to Today
+          </button>
+          {updateMessage && <p className="text-xs text-slate-500 text-center">{updateMessage}</p>}
+          {isGenerating && (
              <button
               onClick={onStop}
               className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 animate-pulse"
@@ -179,7 +426,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
             </svg>
-            Download CSV ({dataCount})
+            Export Dataset ({dataCount})
           </button>
         </div>
       </div>
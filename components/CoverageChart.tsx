@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { CrawlRun, GenerationConfig, NewsItem } from '../types';
+import { latestScopes } from '../services/crawlPlan';
+import { buildCoverage, CoverageBucket, CoverageSplit, Granularity, isSparse, SPARSE_RATIO } from '../services/coverageService';
+
+interface CoverageChartProps {
+  data: NewsItem[];
+  runs: CrawlRun[];
+  queuedCount: number;
+  onCrawlWindow: (scope: GenerationConfig, start: string, end: string, itemsPerDay: number) => void;
+}
+
+const WIDTH = 800;
+const HEIGHT = 160;
+const COLORS = ['#6366f1', '#10b981', '#f59e0b', '#0ea5e9', '#ec4899', '#94a3b8'];
+
+const GRANULARITY_LABELS: Record<Granularity, string> = { day: 'Day', week: 'Week', month: 'Month' };
+
+export const CoverageChart: React.FC<CoverageChartProps> = ({ data, runs, queuedCount, onCrawlWindow }) => {
+  // Gap crawls reuse the mode and density of the picked scope's latest run; a dataset with a single scope needs no pick
+  const scopes = useMemo(() => Array.from(latestScopes(runs).values()), [runs]);
+  const [scopeInput, setScope] = useState('');
+  const scope = scopes.find(s => s.ticker === scopeInput) || (scopes.length === 1 ? scopes[0] : undefined);
+  const scopeRuns = scope ? runs.filter(r => r.config.ticker === scope.ticker) : runs;
+  const scopeData = useMemo(() => scope ? data.filter(item => item.ticker === scope.ticker) : data, [data, scope]);
+
+  // Default to the span of the scope's runs (gap crawls are narrow) and its density, falling back to the data itself
+  const latest = scope || runs[0]?.config;
+  const runStart = scopeRuns.reduce((min, r) => (!min || r.config.startDate < min ? r.config.startDate : min), '');
+  const runEnd = scopeRuns.reduce((max, r) => (r.config.endDate > max ? r.config.endDate : max), '');
+  const [firstTime, lastTime] = useMemo(() => {
+    let min = '';
+    let max = '';
+    scopeData.forEach(item => {
+      if (!min || item.time < min) min = item.time;
+      if (item.time > max) max = item.time;
+    });
+    return [min, max];
+  }, [scopeData]);
+  // Empty / null state means "follow the defaults", which arrive after the dataset loads
+  const [fromInput, setFrom] = useState('');
+  const [toInput, setTo] = useState('');
+  const [targetInput, setItemsPerDay] = useState<number | null>(null);
+  const from = fromInput || runStart || firstTime;
+  const to = toInput || runEnd || lastTime;
+  const itemsPerDay = targetInput ?? latest?.itemsPerDay ?? 1;
+  const [granularity, setGranularity] = useState<Granularity>('month');
+  const [split, setSplit] = useState<CoverageSplit>('mode');
+  const [isOpen, setIsOpen] = useState(true);
+
+  const { buckets, series } = useMemo(
+    () => buildCoverage(scopeData, from, to, granularity, split, itemsPerDay),
+    [scopeData, from, to, granularity, split, itemsPerDay]
+  );
+
+  const sparseCount = buckets.filter(isSparse).length;
+  const maxY = Math.max(1, ...buckets.map(b => Math.max(b.total, b.expected)));
+  const barWidth = buckets.length ? WIDTH / buckets.length : WIDTH;
+  const y = (value: number) => HEIGHT - (value / maxY) * HEIGHT;
+
+  const describe = (b: CoverageBucket) =>
+    `${b.start} – ${b.end}: ${b.total} / ${Math.round(b.expected)} expected` +
+    series.filter(s => b.series[s]).map(s => `\n${s}: ${b.series[s]}`).join('') +
+    (isSparse(b) && scope ? '\nClick to queue a crawl for this window' : '');
+
+  const inputClass = 'rounded border-slate-300 border px-1.5 py-1';
+
+  return (
+    <div className="mb-6 bg-white rounded-lg border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2 p-4">
+        <button onClick={() => setIsOpen(!isOpen)} className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+          <span>{isOpen ? '▾' : '▸'}</span>
+          Coverage Timeline
+          {sparseCount > 0 && (
+            <span className="bg-red-50 text-red-700 text-xs font-semibold px-2 py-0.5 rounded">{sparseCount} sparse</span>
+          )}
+          {queuedCount > 0 && (
+            <span className="bg-indigo-50 text-indigo-700 text-xs font-semibold px-2 py-0.5 rounded">{queuedCount} queued</span>
+          )}
+        </button>
+        {isOpen && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+            {scopes.length > 1 && (
+              <select value={scope?.ticker || ''} onChange={(e) => setScope(e.target.value)} className={inputClass}>
+                <option value="">All scopes</option>
+                {scopes.map(s => <option key={s.ticker} value={s.ticker}>{s.company ? `${s.company} (${s.ticker})` : s.ticker}</option>)}
+              </select>
+            )}
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+            <span>→</span>
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+            <label className="flex items-center gap-1">
+              Target/day
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                value={itemsPerDay}
+                onChange={(e) => setItemsPerDay(parseFloat(e.target.value) || 0)}
+                className={`${inputClass} w-16`}
+              />
+            </label>
+            <select value={granularity} onChange={(e) => setGranularity(e.target.value as Granularity)} className={inputClass}>
+              {(Object.keys(GRANULARITY_LABELS) as Granularity[]).map(g => <option key={g} value={g}>{GRANULARITY_LABELS[g]}</option>)}
+            </select>
+            <select value={split} onChange={(e) => setSplit(e.target.value as CoverageSplit)} className={inputClass}>
+              <option value="mode">By mode</option>
+              <option value="source">By source</option>
+            </select>
+          </div>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="px-4 pb-4">
+          {buckets.length === 0 ? (
+            <p className="text-sm text-slate-400">Pick a date range to plot coverage.</p>
+          ) : (
+            <>
+              <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-40 bg-slate-50 rounded">
+                {buckets.map((b, i) => {
+                  const x = i * barWidth;
+                  const sparse = isSparse(b);
+                  let offset = 0;
+                  return (
+                    <g
+                      key={b.start}
+                      onClick={sparse && scope ? () => onCrawlWindow(scope, b.start, b.end, itemsPerDay) : undefined}
+                      className={sparse && scope ? 'cursor-pointer' : undefined}
+                    >
+                      <title>{describe(b)}</title>
+                      <rect x={x} y={0} width={barWidth} height={HEIGHT} fill={sparse ? (b.total === 0 ? '#fee2e2' : '#fef3c7') : 'transparent'} />
+                      {series.map((s, si) => {
+                        const count = b.series[s] || 0;
+                        if (!count) return null;
+                        offset += count;
+                        return (
+                          <rect
+                            key={s}
+                            x={x + barWidth * 0.1}
+                            y={y(offset)}
+                            width={barWidth * 0.8}
+                            height={(count / maxY) * HEIGHT}
+                            fill={COLORS[si % COLORS.length]}
+                          />
+                        );
+                      })}
+                      <line x1={x} x2={x + barWidth} y1={y(b.expected)} y2={y(b.expected)} stroke="#ef4444" strokeDasharray="4 2" strokeWidth={1} />
+                    </g>
+                  );
+                })}
+              </svg>
+              <div className="flex flex-wrap items-center justify-between gap-2 mt-2 text-xs text-slate-500">
+                <div className="flex flex-wrap gap-3">
+                  {series.map((s, si) => (
+                    <span key={s} className="flex items-center gap-1">
+                      <span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: COLORS[si % COLORS.length] }} />
+                      {s}
+                    </span>
+                  ))}
+                  <span className="flex items-center gap-1"><span className="inline-block w-3 border-t border-dashed border-red-500" />Target</span>
+                </div>
+                <span>
+                  {buckets[0].start} – {to} · highlighted periods are below {Math.round(SPARSE_RATIO * 100)}% of target;{' '}
+                  {scope ? `click one to crawl it for ${scope.ticker}` : runs.length ? 'pick a scope to crawl them' : 'run a crawl first to fill them'}
+                </span>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
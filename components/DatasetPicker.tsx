@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Dataset } from '../types';
+
+interface DatasetPickerProps {
+  datasets: Dataset[];
+  activeId: string | null;
+  disabled: boolean;
+  onOpen: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: () => void;
+}
+
+export const DatasetPicker: React.FC<DatasetPickerProps> = ({
+  datasets,
+  activeId,
+  disabled,
+  onOpen,
+  onCreate,
+  onRename,
+  onDelete,
+  onImport
+}) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState('');
+
+  const active = datasets.find(d => d.id === activeId);
+
+  const startRename = () => {
+    if (!active) return;
+    setDraftName(active.name);
+    setIsRenaming(true);
+  };
+
+  const commitRename = () => {
+    const name = draftName.trim();
+    if (active && name && name !== active.name) {
+      onRename(active.id, name);
+    }
+    setIsRenaming(false);
+  };
+
+  const handleCreate = () => {
+    const name = window.prompt('Name for the new dataset', `ESG Collection ${new Date().toISOString().slice(0, 10)}`);
+    if (name && name.trim()) onCreate(name.trim());
+  };
+
+  const handleDelete = () => {
+    if (!active) return;
+    if (window.confirm(`Delete "${active.name}" and all ${active.itemCount} stored items? This cannot be undone.`)) {
+      onDelete(active.id);
+    }
+  };
+
+  const buttonClass = `text-xs font-medium text-slate-600 hover:text-indigo-600 ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`;
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-md border border-slate-100 mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-slate-700">Dataset</label>
+        <div className="flex gap-3">
+          <button onClick={handleCreate} disabled={disabled} className={buttonClass}>New</button>
+          <button onClick={onImport} disabled={disabled || !active} className={buttonClass}>Import</button>
+          <button onClick={startRename} disabled={disabled || !active} className={buttonClass}>Rename</button>
+          <button onClick={handleDelete} disabled={disabled || !active} className={`${buttonClass} hover:text-red-600`}>Delete</button>
+        </div>
+      </div>
+
+      {isRenaming ? (
+        <input
+          type="text"
+          autoFocus
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') setIsRenaming(false);
+          }}
+          className="block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 border"
+        />
+      ) : (
+        <select
+          value={activeId || ''}
+          disabled={disabled}
+          onChange={(e) => onOpen(e.target.value)}
+          className="block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 border bg-slate-50"
+        >
+          {datasets.map(d => (
+            <option key={d.id} value={d.id}>{d.name} ({d.itemCount.toLocaleString()})</option>
+          ))}
+        </select>
+      )}
+
+      {active && (
+        <p className="text-xs text-slate-500 mt-2">
+          Saved locally. Last updated {new Date(active.updatedAt).toLocaleString()}.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { DedupOptions, DroppedDuplicate, NewsItem } from '../types';
+
+interface DedupReviewProps {
+  options: DedupOptions;
+  onOptionsChange: (options: DedupOptions) => void;
+  dropped: DroppedDuplicate[];
+  data: NewsItem[];
+  onRestore: (dup: DroppedDuplicate) => void;
+  onClear: () => void;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  URL: 'Same URL',
+  HEADLINE: 'Same headline',
+  NEAR_DUPLICATE: 'Near-duplicate text',
+};
+
+export const DedupReview: React.FC<DedupReviewProps> = ({
+  options,
+  onOptionsChange,
+  dropped,
+  data,
+  onRestore,
+  onClear
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const findMatched = (id: string) => data.find(item => item.id === id);
+
+  return (
+    <div className="mt-6 bg-white rounded-lg border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between p-4">
+        <button onClick={() => setIsOpen(!isOpen)} className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+          <span>{isOpen ? '▾' : '▸'}</span>
+          Dropped Duplicates
+          <span className="bg-slate-100 text-slate-600 text-xs font-semibold px-2 py-0.5 rounded">{dropped.length}</span>
+        </button>
+        <div className="flex items-center gap-4 text-xs text-slate-600">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={options.enabled}
+              onChange={(e) => onOptionsChange({ ...options, enabled: e.target.checked })}
+            />
+            Deduplicate
+          </label>
+          <label className="flex items-center gap-2">
+            Similarity ≥
+            <input
+              type="range"
+              min="0.5"
+              max="1"
+              step="0.05"
+              value={options.threshold}
+              disabled={!options.enabled}
+              onChange={(e) => onOptionsChange({ ...options, threshold: parseFloat(e.target.value) })}
+            />
+            <span className="font-mono w-8">{options.threshold.toFixed(2)}</span>
+          </label>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="border-t border-slate-200">
+          {dropped.length === 0 ? (
+            <p className="p-4 text-sm text-slate-400">No duplicates dropped in this session.</p>
+          ) : (
+            <>
+              <ul className="divide-y divide-slate-100 max-h-96 overflow-y-auto">
+                {dropped.map(dup => {
+                  const matched = findMatched(dup.matchedId);
+                  return (
+                    <li key={dup.item.id} className="p-4 text-sm">
+                      <div className="flex items-center justify-between mb-1">
+                        <span className="text-xs font-semibold text-amber-700 bg-amber-50 px-2 py-0.5 rounded">
+                          {REASON_LABELS[dup.reason]}{dup.reason === 'NEAR_DUPLICATE' && ` (${Math.round(dup.similarity * 100)}%)`}
+                        </span>
+                        <button onClick={() => onRestore(dup)} className="text-xs font-medium text-indigo-600 hover:text-indigo-800">
+                          Keep anyway
+                        </button>
+                      </div>
+                      <p className="text-slate-700 line-clamp-2" title={dup.item.text}>
+                        <span className="text-slate-400 mr-1">{dup.item.time}</span>{dup.item.text}
+                      </p>
+                      <p className="text-xs text-slate-400 mt-1 line-clamp-1" title={matched?.text}>
+                        Matches {dup.matchedId}{matched && `: ${matched.time} ${matched.text}`}
+                      </p>
+                    </li>
+                  );
+                })}
+              </ul>
+              <div className="p-3 border-t border-slate-100 text-right">
+                <button onClick={onClear} className="text-xs text-slate-400 hover:text-slate-600">Clear list</button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+
+interface EditableCellProps {
+  value: string;
+  onCommit: (value: string) => void;
+  validate?: (value: string) => string | null; // Returns an error message, or null when valid
+  multiline?: boolean;
+  placeholder?: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+// Double-click to edit; Enter commits (Shift+Enter adds a newline when multiline), Escape cancels
+export const EditableCell: React.FC<EditableCellProps> = ({
+  value,
+  onCommit,
+  validate,
+  multiline,
+  placeholder,
+  className,
+  children
+}) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const error = draft !== null && validate ? validate(draft) : null;
+
+  const commit = () => {
+    if (draft === null || error) return;
+    if (draft !== value) onCommit(draft);
+    setDraft(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      setDraft(null);
+    } else if (e.key === 'Enter' && !(multiline && e.shiftKey)) {
+      e.preventDefault();
+      commit();
+    }
+  };
+
+  if (draft === null) {
+    return (
+      <div onDoubleClick={() => setDraft(value)} className={`cursor-text ${className || ''}`} title="Double-click to edit">
+        {children}
+      </div>
+    );
+  }
+
+  const inputClass = `w-full rounded border px-1.5 py-0.5 text-sm focus:outline-none focus:ring-1 ${error ? 'border-red-400 focus:ring-red-400' : 'border-indigo-300 focus:ring-indigo-400'}`;
+
+  return (
+    <div className={className}>
+      {multiline ? (
+        <textarea
+          autoFocus
+          rows={3}
+          value={draft}
+          placeholder={placeholder}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => (error ? setDraft(null) : commit())}
+          className={`${inputClass} relative z-[2] bg-white`}
+        />
+      ) : (
+        <input
+          autoFocus
+          type="text"
+          value={draft}
+          placeholder={placeholder}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => (error ? setDraft(null) : commit())}
+          className={inputClass}
+        />
+      )}
+      {error && <p className="text-xs text-red-600 mt-0.5">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { DateFormat, ExportColumn, ExportFormat, ExportOptions } from '../types';
+import {
+  buildFileName,
+  DATE_FORMAT_LABELS,
+  defaultColumns,
+  EXPORT_FIELDS,
+  FORMAT_LABELS
+} from '../services/exportService';
+
+interface ExportDialogProps {
+  initialOptions: ExportOptions;
+  datasetName: string;
+  itemCount: number;
+  onExport: (options: ExportOptions) => void;
+  onClose: () => void;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  initialOptions,
+  datasetName,
+  itemCount,
+  onExport,
+  onClose
+}) => {
+  const [options, setOptions] = useState<ExportOptions>(initialOptions);
+
+  const updateColumn = (index: number, patch: Partial<ExportColumn>) => {
+    setOptions(prev => ({
+      ...prev,
+      columns: prev.columns.map((c, i) => i === index ? { ...c, ...patch } : c)
+    }));
+  };
+
+  const moveColumn = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= options.columns.length) return;
+    const columns = [...options.columns];
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    setOptions(prev => ({ ...prev, columns }));
+  };
+
+  const enabled = options.columns.filter(c => c.enabled);
+  const headers = enabled.map(c => c.header.trim());
+  const hasDuplicateHeaders = new Set(headers).size !== headers.length;
+  const hasEmptyHeader = headers.some(h => !h);
+  const canExport = enabled.length > 0 && !hasDuplicateHeaders && !hasEmptyHeader;
+
+  const inputClass = "block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 border";
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-800">Export Dataset</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {/* Format */}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Format</label>
+            <div className="grid grid-cols-2 gap-2">
+              {Object.values(ExportFormat).map(format => (
+                <button
+                  key={format}
+                  onClick={() => setOptions(prev => ({ ...prev, format }))}
+                  className={`py-2 px-3 rounded-md text-sm font-medium border transition-all ${options.format === format ? 'bg-indigo-50 border-indigo-300 text-indigo-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                >
+                  {FORMAT_LABELS[format]}
+                </button>
+              ))}
+            </div>
+            {options.format === ExportFormat.HF_JSON && (
+              <p className="text-xs text-slate-500 mt-2 font-mono">
+                load_dataset("json", data_files="…", field="data")
+              </p>
+            )}
+          </div>
+
+          {/* Columns */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-slate-700">Columns</label>
+              <button
+                onClick={() => setOptions(prev => ({ ...prev, columns: defaultColumns() }))}
+                className="text-xs text-slate-500 hover:text-indigo-600"
+              >
+                Reset
+              </button>
+            </div>
+            <div className="border border-slate-200 rounded-md divide-y divide-slate-100">
+              {options.columns.map((col, i) => (
+                <div key={col.key} className="flex items-center gap-3 px-3 py-1.5">
+                  <input
+                    type="checkbox"
+                    checked={col.enabled}
+                    onChange={(e) => updateColumn(i, { enabled: e.target.checked })}
+                  />
+                  <span className="w-28 text-xs text-slate-500 font-mono">
+                    {EXPORT_FIELDS.find(f => f.key === col.key)?.key}
+                  </span>
+                  <input
+                    type="text"
+                    value={col.header}
+                    disabled={!col.enabled}
+                    onChange={(e) => updateColumn(i, { header: e.target.value })}
+                    className="flex-1 rounded border-slate-300 text-sm px-2 py-1 border disabled:bg-slate-50 disabled:text-slate-400"
+                  />
+                  <button onClick={() => moveColumn(i, -1)} disabled={i === 0} className="text-slate-400 hover:text-slate-700 disabled:opacity-30">↑</button>
+                  <button onClick={() => moveColumn(i, 1)} disabled={i === options.columns.length - 1} className="text-slate-400 hover:text-slate-700 disabled:opacity-30">↓</button>
+                </div>
+              ))}
+            </div>
+            {hasDuplicateHeaders && <p className="text-xs text-red-600 mt-1">Column headers must be unique.</p>}
+            {hasEmptyHeader && <p className="text-xs text-red-600 mt-1">Column headers cannot be empty.</p>}
+          </div>
+
+          {/* Date format & file name */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Date Format</label>
+              <select
+                value={options.dateFormat}
+                onChange={(e) => setOptions(prev => ({ ...prev, dateFormat: e.target.value as DateFormat }))}
+                className={`${inputClass} bg-slate-50`}
+              >
+                {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map(f => (
+                  <option key={f} value={f}>{DATE_FORMAT_LABELS[f]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">File Name Pattern</label>
+              <input
+                type="text"
+                value={options.fileNamePattern}
+                onChange={(e) => setOptions(prev => ({ ...prev, fileNamePattern: e.target.value }))}
+                className={inputClass}
+              />
+              <p className="text-xs text-slate-500 mt-1">Tokens: {'{dataset} {date} {count} {format}'}</p>
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">
+            File: <span className="font-mono text-slate-700">{buildFileName(options.fileNamePattern, { dataset: datasetName, count: itemCount, format: options.format })}</span>
+            <br />
+            A <span className="font-mono">.manifest.json</span> with the config, prompts, models and per-window metadata of each run is downloaded alongside.
+          </p>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 flex justify-end gap-3">
+          <button onClick={onClose} className="py-2 px-4 rounded-md text-sm font-medium text-slate-600 hover:bg-slate-50">
+            Cancel
+          </button>
+          <button
+            onClick={() => onExport(options)}
+            disabled={!canExport}
+            className={`py-2 px-4 rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 ${!canExport ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            Export {itemCount.toLocaleString()} rows
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
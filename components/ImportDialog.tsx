@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { NewsItem, RejectedRow } from '../types';
+import {
+  guessMapping,
+  IMPORT_FIELDS,
+  ImportFieldKey,
+  mapRecords,
+  parseImportFile,
+  ParsedImport
+} from '../services/importService';
+
+interface ImportDialogProps {
+  defaultTicker: string;
+  onImport: (items: NewsItem[]) => Promise<{ added: number; duplicates: number }>;
+  onClose: () => void;
+}
+
+interface ImportReport {
+  added: number;
+  duplicates: number;
+  rejected: RejectedRow[];
+}
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ defaultTicker, onImport, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [mapping, setMapping] = useState<Record<string, ImportFieldKey>>({});
+  const [ticker, setTicker] = useState(defaultTicker);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleFile = async (file: File) => {
+    const result = parseImportFile(await file.text(), file.name);
+    setFileName(file.name);
+    setParsed(result);
+    setMapping(guessMapping(result.headers));
+    setReport(null);
+  };
+
+  const mappedKeys = Object.values(mapping);
+  const hasDate = mappedKeys.includes('time');
+  const hasText = mappedKeys.some(k => k === 'text' || k === 'headline' || k === 'summary');
+
+  const handleImport = async () => {
+    if (!parsed) return;
+    setIsImporting(true);
+    try {
+      const { items, rejected } = mapRecords(parsed, mapping, ticker.trim() || 'Imported');
+      const { added, duplicates } = await onImport(items);
+      setReport({ added, duplicates, rejected });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-800">Import Dataset</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">File (CSV or JSONL)</label>
+            <input
+              type="file"
+              accept=".csv,.jsonl,.json"
+              onChange={(e) => { const file = e.target.files?.[0]; if (file) handleFile(file); }}
+              className="block w-full text-sm text-slate-500 file:mr-2 file:py-1 file:px-2 file:rounded file:border-0 file:bg-indigo-50 file:text-indigo-700"
+            />
+          </div>
+
+          {parsed && !report && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">
+                  Column Mapping <span className="text-slate-400 font-normal">({parsed.records.length} rows in {fileName})</span>
+                </label>
+                <div className="border border-slate-200 rounded-md divide-y divide-slate-100">
+                  {parsed.headers.map(header => (
+                    <div key={header} className="flex items-center gap-3 px-3 py-1.5 text-sm">
+                      <span className="w-32 font-mono text-xs text-slate-700 truncate" title={header}>{header}</span>
+                      <span className="flex-1 text-xs text-slate-400 truncate" title={parsed.records[0]?.values[header]}>
+                        {parsed.records[0]?.values[header]}
+                      </span>
+                      <select
+                        value={mapping[header]}
+                        onChange={(e) => setMapping(prev => ({ ...prev, [header]: e.target.value as ImportFieldKey }))}
+                        className="w-40 rounded border-slate-300 text-sm px-2 py-1 border bg-slate-50"
+                      >
+                        {IMPORT_FIELDS.map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                {!hasDate && <p className="text-xs text-red-600 mt-1">Map a column to Time.</p>}
+                {!hasText && <p className="text-xs text-red-600 mt-1">Map a column to Text, Headline or Summary.</p>}
+              </div>
+
+              {!mappedKeys.includes('ticker') && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Ticker / Scope for all rows</label>
+                  <input
+                    type="text"
+                    value={ticker}
+                    onChange={(e) => setTicker(e.target.value)}
+                    className="block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 border"
+                  />
+                </div>
+              )}
+            </>
+          )}
+
+          {report && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div className="bg-green-50 rounded-md p-3">
+                  <div className="text-xl font-bold text-green-700">{report.added}</div>
+                  <div className="text-xs text-green-700">Imported</div>
+                </div>
+                <div className="bg-amber-50 rounded-md p-3">
+                  <div className="text-xl font-bold text-amber-700">{report.duplicates}</div>
+                  <div className="text-xs text-amber-700">Duplicates skipped</div>
+                </div>
+                <div className="bg-red-50 rounded-md p-3">
+                  <div className="text-xl font-bold text-red-700">{report.rejected.length}</div>
+                  <div className="text-xs text-red-700">Rejected</div>
+                </div>
+              </div>
+              {report.rejected.length > 0 && (
+                <ul className="border border-slate-200 rounded-md divide-y divide-slate-100 max-h-64 overflow-y-auto text-xs">
+                  {report.rejected.map((r, i) => (
+                    <li key={i} className="px-3 py-1.5">
+                      <span className="font-mono text-slate-500 mr-2">Row {r.row}</span>
+                      <span className="text-red-600 mr-2">{r.reason}</span>
+                      <span className="text-slate-400 truncate block" title={r.raw}>{r.raw}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 flex justify-end gap-3">
+          <button onClick={onClose} className="py-2 px-4 rounded-md text-sm font-medium text-slate-600 hover:bg-slate-50">
+            {report ? 'Close' : 'Cancel'}
+          </button>
+          {!report && (
+            <button
+              onClick={handleImport}
+              disabled={!parsed || !hasDate || !hasText || isImporting}
+              className={`py-2 px-4 rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 ${(!parsed || !hasDate || !hasText || isImporting) ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {isImporting ? 'Importing…' : 'Import'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
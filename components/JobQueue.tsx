@@ -0,0 +1,78 @@
+import React from 'react';
+import { CrawlJob, CrawlRun } from '../types';
+import { summarizeRun } from '../services/crawlPlan';
+
+interface JobQueueProps {
+  jobs: CrawlJob[];
+  runs: CrawlRun[];
+  onPause: (job: CrawlJob) => void;
+  onResume: (job: CrawlJob) => void;
+  onCancel: (job: CrawlJob) => void;
+  onRemove: (job: CrawlJob) => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  queued: 'bg-slate-100 text-slate-600',
+  running: 'bg-indigo-100 text-indigo-700',
+  paused: 'bg-yellow-100 text-yellow-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-slate-100 text-slate-400',
+};
+
+export const JobQueue: React.FC<JobQueueProps> = ({ jobs, runs, onPause, onResume, onCancel, onRemove }) => {
+  if (jobs.length === 0) return null;
+
+  const active = jobs.filter(job => job.status === 'queued' || job.status === 'running' || job.status === 'paused').length;
+
+  return (
+    <div className="mt-6 bg-white p-4 rounded-xl shadow-md border border-slate-100">
+      <h3 className="text-sm font-semibold text-slate-800 mb-3">
+        Job Queue <span className="text-xs font-normal text-slate-500">({active} active / {jobs.length})</span>
+      </h3>
+      <ul className="space-y-2">
+        {jobs.map(job => {
+          const run = job.runId ? runs.find(r => r.id === job.runId) : undefined;
+          const summary = run ? summarizeRun(run) : null;
+          const pct = summary && summary.total ? Math.round((summary.succeeded / summary.total) * 100) : 0;
+          const linkClass = 'font-medium hover:underline';
+
+          return (
+            <li key={job.id} className="text-xs text-slate-600 border-b border-slate-100 pb-2 last:border-0 last:pb-0">
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate text-slate-800" title={`${job.id} · ${job.label}`}>{job.label}</span>
+                <span className={`px-1.5 py-0.5 rounded font-semibold shrink-0 ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+              </div>
+              {summary && (
+                <div className="w-full bg-slate-100 rounded h-1 my-1">
+                  <div className="bg-indigo-500 h-1 rounded" style={{ width: `${pct}%` }} />
+                </div>
+              )}
+              <div className="flex items-center justify-between">
+                <span className="text-slate-400">
+                  {job.config.itemsPerDay}/day{summary && <> · {summary.items}/{summary.requested} items</>}
+                </span>
+                <span className="flex gap-2">
+                  {(job.status === 'queued' || job.status === 'running') && (
+                    <button onClick={() => onPause(job)} className={`${linkClass} text-yellow-700`}>Pause</button>
+                  )}
+                  {(job.status === 'paused' || job.status === 'failed') && (
+                    <button onClick={() => onResume(job)} className={`${linkClass} text-indigo-600`}>
+                      {job.status === 'failed' ? 'Retry' : 'Resume'}
+                    </button>
+                  )}
+                  {(job.status === 'queued' || job.status === 'running' || job.status === 'paused') && (
+                    <button onClick={() => onCancel(job)} className={`${linkClass} text-slate-400 hover:text-red-600`}>Cancel</button>
+                  )}
+                  {(job.status === 'completed' || job.status === 'cancelled' || job.status === 'failed') && (
+                    <button onClick={() => onRemove(job)} className={`${linkClass} text-slate-400 hover:text-red-600`}>Remove</button>
+                  )}
+                </span>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { EsgPillar, NewsItem, SentimentLabel } from '../types';
+import { PILLAR_LABELS, PILLARS, SENTIMENTS } from '../services/labelingService';
+import { sourceOf } from '../services/datasetQuery';
+
+interface LabelingViewProps {
+  data: NewsItem[];
+  annotator: string;
+  onAnnotatorChange: (name: string) => void;
+  onUpdate: (items: NewsItem[], label: string) => void;
+}
+
+const SENTIMENT_KEYS: Record<string, SentimentLabel> = { '1': 'positive', '2': 'neutral', '3': 'negative' };
+const PILLAR_KEYS: Record<string, EsgPillar> = { e: 'E', s: 'S', g: 'G' };
+
+const SENTIMENT_STYLES: Record<SentimentLabel, string> = {
+  positive: 'bg-green-600 text-white border-green-600',
+  neutral: 'bg-slate-500 text-white border-slate-500',
+  negative: 'bg-red-600 text-white border-red-600',
+};
+
+const isComplete = (item: NewsItem) => !!item.sentiment && !!item.pillar;
+
+export const LabelingView: React.FC<LabelingViewProps> = ({ data, annotator, onAnnotatorChange, onUpdate }) => {
+  const [onlyUnlabeled, setOnlyUnlabeled] = useState(false);
+  const [position, setPosition] = useState(0);
+  // Pin the queue when "only unlabeled" is on, so labeling an item doesn't reshuffle it away mid-edit
+  const [queueIds, setQueueIds] = useState<string[] | null>(null);
+
+  const byId = useMemo(() => new Map(data.map(item => [item.id, item])), [data]);
+  const ordered = useMemo(() => [...data].sort((a, b) => a.time.localeCompare(b.time)), [data]);
+
+  const queue = useMemo(() => {
+    if (queueIds) return queueIds.map(id => byId.get(id)).filter((item): item is NewsItem => !!item);
+    return ordered;
+  }, [queueIds, byId, ordered]);
+
+  const index = Math.min(position, Math.max(0, queue.length - 1));
+  const current = queue[index];
+
+  const labeledCount = data.filter(isComplete).length;
+  const sentimentCount = data.filter(item => item.sentiment).length;
+  const pillarCount = data.filter(item => item.pillar).length;
+
+  const toggleOnlyUnlabeled = (value: boolean) => {
+    setOnlyUnlabeled(value);
+    setQueueIds(value ? ordered.filter(item => !isComplete(item)).map(item => item.id) : null);
+    setPosition(0);
+  };
+
+  const go = (delta: number) => setPosition(Math.max(0, Math.min(queue.length - 1, index + delta)));
+
+  const nextUnlabeled = () => {
+    const next = queue.findIndex((item, i) => i > index && !isComplete(item));
+    if (next >= 0) setPosition(next);
+  };
+
+  const setLabel = (patch: Partial<NewsItem>) => {
+    if (!current) return;
+    const updated = { ...current, ...patch, labeledBy: annotator || undefined };
+    onUpdate([updated], `Label ${current.id}`);
+    // Move on once both labels are set
+    if (isComplete(updated) && index < queue.length - 1) setPosition(index + 1);
+  };
+
+  const clearLabels = () => {
+    if (!current) return;
+    onUpdate([{ ...current, sentiment: undefined, pillar: undefined, labeledBy: undefined }], `Clear labels of ${current.id}`);
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select') || e.ctrlKey || e.metaKey || e.altKey) return;
+      const key = e.key.toLowerCase();
+
+      if (SENTIMENT_KEYS[key]) setLabel({ sentiment: SENTIMENT_KEYS[key] });
+      else if (PILLAR_KEYS[key]) setLabel({ pillar: PILLAR_KEYS[key] });
+      else if (key === 'arrowright' || key === 'j') go(1);
+      else if (key === 'arrowleft' || key === 'k') go(-1);
+      else if (key === 'u') nextUnlabeled();
+      else if (key === '0' || key === 'backspace') clearLabels();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const pct = data.length ? Math.round((labeledCount / data.length) * 100) : 0;
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm">
+      {/* Progress */}
+      <div className="p-4 border-b border-slate-200 space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-slate-600">
+          <span>
+            <b className="text-slate-800">{labeledCount.toLocaleString()}</b> / {data.length.toLocaleString()} fully labeled ({pct}%)
+            · sentiment {sentimentCount.toLocaleString()} · pillar {pillarCount.toLocaleString()}
+          </span>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={onlyUnlabeled} onChange={(e) => toggleOnlyUnlabeled(e.target.checked)} />
+              Only unlabeled
+            </label>
+            <input
+              type="text"
+              placeholder="Annotator name"
+              value={annotator}
+              onChange={(e) => onAnnotatorChange(e.target.value)}
+              className="rounded border-slate-300 border px-2 py-1 text-xs w-36"
+            />
+          </div>
+        </div>
+        <div className="w-full bg-slate-100 rounded h-2">
+          <div className="bg-indigo-500 h-2 rounded" style={{ width: `${pct}%` }} />
+        </div>
+      </div>
+
+      {!current ? (
+        <p className="p-8 text-center text-sm text-slate-400">
+          {onlyUnlabeled ? 'Everything in this queue is labeled.' : 'No items to label.'}
+        </p>
+      ) : (
+        <div className="p-6">
+          <div className="flex items-center justify-between text-xs text-slate-500 mb-3">
+            <span>
+              Item {index + 1} / {queue.length} · <span className="font-mono">{current.id}</span> · {current.time} · {current.ticker}
+            </span>
+            <span>{sourceOf(current)}</span>
+          </div>
+
+          {current.headline && <h3 className="text-lg font-semibold text-slate-900 mb-2">{current.headline}</h3>}
+          <p className="text-slate-700 leading-relaxed mb-6 whitespace-pre-wrap">{current.text}</p>
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <div className="text-xs font-medium text-slate-500 mb-1">Sentiment (1 / 2 / 3)</div>
+              <div className="flex gap-2">
+                {SENTIMENTS.map((s, i) => (
+                  <button
+                    key={s}
+                    onClick={() => setLabel({ sentiment: s })}
+                    className={`flex-1 py-2 rounded-md border text-sm font-medium capitalize ${current.sentiment === s ? SENTIMENT_STYLES[s] : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                  >
+                    <span className="opacity-60 mr-1">{i + 1}</span>{s}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs font-medium text-slate-500 mb-1">ESG Pillar (E / S / G)</div>
+              <div className="flex gap-2">
+                {PILLARS.map(p => (
+                  <button
+                    key={p}
+                    onClick={() => setLabel({ pillar: p })}
+                    className={`flex-1 py-2 rounded-md border text-sm font-medium ${current.pillar === p ? 'bg-indigo-600 text-white border-indigo-600' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                  >
+                    {PILLAR_LABELS[p]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between mt-6 text-xs text-slate-500">
+            <div className="flex gap-2">
+              <button onClick={() => go(-1)} disabled={index === 0} className="px-3 py-1.5 rounded border border-slate-200 hover:bg-slate-50 disabled:opacity-40">‹ Prev (K)</button>
+              <button onClick={() => go(1)} disabled={index >= queue.length - 1} className="px-3 py-1.5 rounded border border-slate-200 hover:bg-slate-50 disabled:opacity-40">Next (J) ›</button>
+              <button onClick={nextUnlabeled} className="px-3 py-1.5 rounded border border-slate-200 hover:bg-slate-50">Next unlabeled (U)</button>
+            </div>
+            <div className="flex items-center gap-3">
+              {current.labeledBy && <span>Labeled by {current.labeledBy}</span>}
+              <button onClick={clearLabels} className="hover:text-red-600">Clear (0)</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,175 @@
-import React from 'react';
-import { NewsItem } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CrawlJob, NewsItem, VerificationStatus } from '../types';
+import { EditableCell } from './EditableCell';
+import { normalizeDate } from '../services/importService';
+import { PILLAR_LABELS, PILLARS } from '../services/labelingService';
+import { TOPIC_TAXONOMY, topicLabel } from '../services/classifier';
+import { VERIFICATION_LABELS } from '../services/groundingService';
+import {
+  applyFilters,
+  DatasetFilters,
+  distinctValues,
+  EMPTY_FILTERS,
+  sortItems,
+  SortKey,
+  SortState,
+  sourceOf
+} from '../services/datasetQuery';
 
 interface NewsTableProps {
   data: NewsItem[];
-  onDelete: (id: string) => void;
+  onDelete: (ids: string[]) => void;
+  onUpdate: (items: NewsItem[], label: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  undoLabel?: string;
+  redoLabel?: string;
+  jobs?: CrawlJob[];
 }
 
-export const NewsTable: React.FC<NewsTableProps> = ({ data, onDelete }) => {
+// Fixed row height lets us window the rows without measuring the DOM
+const ROW_HEIGHT = 112;
+
+const VERIFICATION_STYLES: Record<VerificationStatus, string> = {
+  verified: 'bg-green-50 text-green-700',
+  unverified: 'bg-yellow-50 text-yellow-700',
+  suspected: 'bg-red-50 text-red-700',
+};
+const VIEWPORT_HEIGHT = 640;
+const OVERSCAN = 8;
+const PAGE_SIZES = [500, 1000, 5000];
+
+const COLUMNS: { key: SortKey; label: string; className: string }[] = [
+  { key: 'time', label: 'Time', className: 'w-28' },
+  { key: 'id', label: 'Sample ID', className: 'w-36' },
+  { key: 'text', label: 'Text (FinBERT Input)', className: '' },
+  { key: 'ticker', label: 'Ticker', className: 'w-40' },
+];
+
+const validateDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) && normalizeDate(value) ? null : 'Use a valid YYYY-MM-DD date';
+
+const validateNotEmpty = (value: string) => value.trim() ? null : 'Cannot be empty';
+
+export const NewsTable: React.FC<NewsTableProps> = ({
+  data,
+  onDelete,
+  onUpdate,
+  onUndo,
+  onRedo,
+  undoLabel,
+  redoLabel,
+  jobs = []
+}) => {
+  const [filters, setFilters] = useState<DatasetFilters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<SortState>({ key: 'time', direction: 'desc' });
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[1]);
+  const [page, setPage] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [retagValue, setRetagValue] = useState('');
+
+  // Drop selections of items that no longer exist (deleted, undone)
+  useEffect(() => {
+    setSelected(prev => {
+      const ids = new Set(data.map(item => item.id));
+      const next = new Set(Array.from(prev).filter(id => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [data]);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y), unless the user is typing in a field
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select')) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey && undoLabel) {
+        e.preventDefault();
+        onUndo();
+      } else if (((key === 'z' && e.shiftKey) || key === 'y') && redoLabel) {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onUndo, onRedo, undoLabel, redoLabel]);
+
+  const resetScroll = () => {
+    setScrollTop(0);
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+  };
+
+  const sources = useMemo(() => distinctValues(data, sourceOf), [data]);
+  const tickers = useMemo(() => distinctValues(data, item => item.ticker), [data]);
+  const providers = useMemo(() => distinctValues(data, item => item.provider), [data]);
+  const jobIds = useMemo(() => distinctValues(data, item => item.jobId), [data]);
+  const hasVerification = useMemo(() => data.some(item => item.verification), [data]);
+  const jobLabel = (id: string) => jobs.find(job => job.id === id)?.label || id;
+
+  const visible = useMemo(() => sortItems(applyFilters(data, filters), sort), [data, filters, sort]);
+
+  const pageCount = Math.max(1, Math.ceil(visible.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = visible.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(pageRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const windowRows = pageRows.slice(firstRow, lastRow);
+
+  const updateFilter = (patch: Partial<DatasetFilters>) => {
+    setFilters(prev => ({ ...prev, ...patch }));
+    setPage(0);
+    resetScroll();
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => ({ key, direction: prev.key === key && prev.direction === 'desc' ? 'asc' : 'desc' }));
+  };
+
+  const editItem = (item: NewsItem, patch: Partial<NewsItem>, label: string) => {
+    onUpdate([{ ...item, ...patch }], label);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Header checkbox selects everything matching the current filters, not only the rendered window
+  const allVisibleSelected = visible.length > 0 && visible.every(item => selected.has(item.id));
+  const toggleSelectAll = () => {
+    setSelected(allVisibleSelected ? new Set() : new Set(visible.map(item => item.id)));
+  };
+
+  const selectedItems = () => data.filter(item => selected.has(item.id));
+
+  const handleBulkDelete = () => {
+    if (window.confirm(`Delete ${selected.size} selected item(s)?`)) {
+      onDelete(Array.from(selected));
+      setSelected(new Set());
+    }
+  };
+
+  const handleBulkRetag = () => {
+    const ticker = retagValue.trim();
+    if (!ticker) return;
+    onUpdate(selectedItems().map(item => ({ ...item, ticker })), `Re-tag ${selected.size} item(s) as ${ticker}`);
+    setRetagValue('');
+  };
+
+  const goToPage = (next: number) => {
+    setPage(next);
+    resetScroll();
+  };
+
   if (data.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center h-64 border-2 border-dashed border-slate-200 rounded-lg bg-slate-50 text-slate-400">
@@ -18,65 +181,226 @@ export const NewsTable: React.FC<NewsTableProps> = ({ data, onDelete }) => {
     );
   }
 
-  // Only show the last 100 items to prevent DOM overload with 6000 items
-  const displayData = data.slice(-100).reverse();
-  const isTruncated = data.length > 100;
+  const filterClass = "rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm p-1.5 border bg-white";
 
   return (
-    <div className="overflow-x-auto shadow-sm rounded-lg border border-slate-200">
-      {isTruncated && (
-        <div className="bg-yellow-50 p-2 text-xs text-yellow-700 text-center border-b border-yellow-100">
-           Displaying last 100 items for performance. All {data.length} items are included in Download.
+    <div className="shadow-sm rounded-lg border border-slate-200 bg-white">
+      {/* Toolbar */}
+      <div className="p-3 border-b border-slate-200 bg-slate-50 space-y-2">
+        <input
+          type="search"
+          placeholder="Search text, headline, URL, source, ID…"
+          value={filters.search}
+          onChange={(e) => updateFilter({ search: e.target.value })}
+          className={`${filterClass} w-full`}
+        />
+        <div className="flex flex-wrap gap-2 items-center text-xs text-slate-500">
+          <input type="date" value={filters.from} onChange={(e) => updateFilter({ from: e.target.value })} className={filterClass} />
+          <span>→</span>
+          <input type="date" value={filters.to} onChange={(e) => updateFilter({ to: e.target.value })} className={filterClass} />
+          <select value={filters.source} onChange={(e) => updateFilter({ source: e.target.value })} className={`${filterClass} max-w-[10rem]`}>
+            <option value="">All sources</option>
+            {sources.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <select value={filters.ticker} onChange={(e) => updateFilter({ ticker: e.target.value })} className={`${filterClass} max-w-[12rem]`}>
+            <option value="">All tickers / scopes</option>
+            {tickers.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <select value={filters.provider} onChange={(e) => updateFilter({ provider: e.target.value })} className={filterClass}>
+            <option value="">All modes</option>
+            {providers.map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+          {jobIds.length > 0 && (
+            <select value={filters.job} onChange={(e) => updateFilter({ job: e.target.value })} className={`${filterClass} max-w-[12rem]`}>
+              <option value="">All jobs</option>
+              {jobIds.map(id => <option key={id} value={id}>{jobLabel(id)}</option>)}
+            </select>
+          )}
+          <select value={filters.pillar} onChange={(e) => updateFilter({ pillar: e.target.value })} className={filterClass}>
+            <option value="">All pillars</option>
+            {PILLARS.map(p => <option key={p} value={p}>{PILLAR_LABELS[p]}</option>)}
+            <option value="none">Unclassified</option>
+          </select>
+          <select value={filters.topic} onChange={(e) => updateFilter({ topic: e.target.value })} className={`${filterClass} max-w-[12rem]`}>
+            <option value="">All topics</option>
+            {TOPIC_TAXONOMY.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+          </select>
+          {hasVerification && (
+            <select value={filters.verification} onChange={(e) => updateFilter({ verification: e.target.value })} className={filterClass}>
+              <option value="">All sources</option>
+              <option value="verified-only">Drop unverified</option>
+              {(Object.keys(VERIFICATION_LABELS) as VerificationStatus[]).map(v => <option key={v} value={v}>{VERIFICATION_LABELS[v]}</option>)}
+            </select>
+          )}
+          <button onClick={() => updateFilter(EMPTY_FILTERS)} className="text-slate-500 hover:text-indigo-600 ml-auto">
+            Reset filters
+          </button>
+          <button onClick={onUndo} disabled={!undoLabel} title={undoLabel ? `Undo: ${undoLabel}` : 'Nothing to undo'} className="px-2 py-1 rounded hover:bg-slate-200 disabled:opacity-40">
+            ↶ Undo
+          </button>
+          <button onClick={onRedo} disabled={!redoLabel} title={redoLabel ? `Redo: ${redoLabel}` : 'Nothing to redo'} className="px-2 py-1 rounded hover:bg-slate-200 disabled:opacity-40">
+            ↷ Redo
+          </button>
         </div>
-      )}
-      <table className="min-w-full divide-y divide-slate-200 bg-white">
-        <thead className="bg-slate-50">
-          <tr>
-            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
-              Time
-            </th>
-            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
-              Sample ID
-            </th>
-            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider w-1/2">
-              Text (FinBERT Input)
-            </th>
-            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
-              Ticker
-            </th>
-            <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">
-              Actions
-            </th>
-          </tr>
-        </thead>
-        <tbody className="divide-y divide-slate-200">
-          {displayData.map((item) => (
-            <tr key={item.id} className="hover:bg-slate-50 transition-colors">
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900 font-medium">
-                {item.time}
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500 font-mono">
-                {item.id}
-              </td>
-              <td className="px-6 py-4 text-sm text-slate-700">
-                <p className="line-clamp-2" title={item.text}>{item.text}</p>
-                <span className="text-xs text-slate-400 mt-1 block">Source: {item.source}</span>
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-slate-600">
-                {item.ticker}
-              </td>
-              <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                <button
-                  onClick={() => onDelete(item.id)}
-                  className="text-red-500 hover:text-red-700 transition-colors"
+        {selected.size > 0 && (
+          <div className="flex flex-wrap gap-2 items-center text-xs bg-indigo-50 border border-indigo-100 rounded-md p-2">
+            <span className="font-semibold text-indigo-700">{selected.size.toLocaleString()} selected</span>
+            <button onClick={handleBulkDelete} className="px-2 py-1 rounded text-red-600 hover:bg-red-50">Delete</button>
+            <span className="text-slate-300">|</span>
+            <input
+              type="text"
+              list="news-table-tickers"
+              placeholder="New ticker / scope"
+              value={retagValue}
+              onChange={(e) => setRetagValue(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleBulkRetag(); }}
+              className={`${filterClass} py-1`}
+            />
+            <datalist id="news-table-tickers">
+              {tickers.map(t => <option key={t} value={t} />)}
+            </datalist>
+            <button onClick={handleBulkRetag} disabled={!retagValue.trim()} className="px-2 py-1 rounded text-indigo-700 hover:bg-indigo-100 disabled:opacity-40">Re-tag</button>
+            <button onClick={() => setSelected(new Set())} className="ml-auto text-slate-500 hover:text-slate-700">Clear selection</button>
+          </div>
+        )}
+      </div>
+
+      {/* Virtualized rows */}
+      <div
+        ref={viewportRef}
+        className="overflow-auto"
+        style={{ height: Math.min(VIEWPORT_HEIGHT, pageRows.length * ROW_HEIGHT + 40) }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <table className="min-w-full table-fixed divide-y divide-slate-200">
+          <thead className="bg-slate-50 sticky top-0 z-[1]">
+            <tr>
+              <th scope="col" className="pl-4 py-3 w-8">
+                <input type="checkbox" checked={allVisibleSelected} onChange={toggleSelectAll} title="Select all matching items" />
+              </th>
+              {COLUMNS.map(col => (
+                <th
+                  key={col.key}
+                  scope="col"
+                  onClick={() => toggleSort(col.key)}
+                  className={`px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider cursor-pointer select-none hover:text-slate-700 ${col.className}`}
                 >
-                  Delete
-                </button>
-              </td>
+                  {col.label}
+                  {sort.key === col.key && <span className="ml-1">{sort.direction === 'asc' ? '▲' : '▼'}</span>}
+                </th>
+              ))}
+              <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider w-24">
+                Actions
+              </th>
             </tr>
-          ))}
-        </tbody>
-      </table>
+          </thead>
+          <tbody className="divide-y divide-slate-200">
+            {firstRow > 0 && <tr style={{ height: firstRow * ROW_HEIGHT }} />}
+            {windowRows.map((item) => (
+              <tr key={item.id} className={`transition-colors ${selected.has(item.id) ? 'bg-indigo-50/50' : 'hover:bg-slate-50'}`} style={{ height: ROW_HEIGHT }}>
+                <td className="pl-4 py-2 align-top">
+                  <input type="checkbox" checked={selected.has(item.id)} onChange={() => toggleSelected(item.id)} />
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-slate-900 font-medium align-top">
+                  <EditableCell value={item.time} validate={validateDate} onCommit={(time) => editItem(item, { time: time.trim() }, `Edit time of ${item.id}`)}>
+                    {item.time}
+                  </EditableCell>
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-slate-500 font-mono align-top truncate">
+                  {item.id}
+                </td>
+                <td className="px-4 py-2 text-sm text-slate-700 align-top">
+                  {item.headline && (
+                    <p className="font-medium text-slate-900 line-clamp-1" title={item.headline}>
+                      {item.url ? (
+                        <a href={item.url} target="_blank" rel="noopener noreferrer" className="hover:text-indigo-600 hover:underline">{item.headline}</a>
+                      ) : item.headline}
+                    </p>
+                  )}
+                  <EditableCell
+                    value={item.text}
+                    multiline
+                    validate={validateNotEmpty}
+                    onCommit={(text) => editItem(item, { text, manualText: true }, `Edit text of ${item.id}`)}
+                  >
+                    <p className={item.headline ? 'line-clamp-1' : 'line-clamp-2'} title={item.text}>
+                      {item.text}
+                      {item.manualText && <span className="ml-1 text-xs text-indigo-400" title="Edited by hand">✎</span>}
+                    </p>
+                  </EditableCell>
+                  <EditableCell
+                    value={sourceOf(item)}
+                    onCommit={(source) => editItem(item, { source, publisher: item.publisher !== undefined ? source : undefined }, `Edit source of ${item.id}`)}
+                    className="text-xs text-slate-400 mt-1 truncate"
+                  >
+                    Source: {sourceOf(item)}
+                    {item.provider && <> · {item.provider}</>}
+                    {item.model && <> · {item.model}</>}
+                    {item.pillars?.map(p => (
+                      <span key={p} className="ml-1 px-1 rounded bg-emerald-50 text-emerald-700 font-semibold">{p}</span>
+                    ))}
+                    {item.topics && item.topics.length > 0 && <> · {item.topics.map(topicLabel).join(', ')}</>}
+                    {item.verification && (
+                      <span
+                        className={`ml-1 px-1 rounded font-semibold ${VERIFICATION_STYLES[item.verification]}`}
+                        title={item.citations?.map(c => `${c.title || ''} ${c.url}`.trim()).join('\n') || 'No grounding citations'}
+                      >
+                        {VERIFICATION_LABELS[item.verification]}
+                      </span>
+                    )}
+                  </EditableCell>
+                  <EditableCell
+                    value={item.annotation || ''}
+                    placeholder="Add a note…"
+                    onCommit={(annotation) => editItem(item, { annotation: annotation.trim() || undefined }, `Annotate ${item.id}`)}
+                    className="text-xs mt-0.5 truncate"
+                  >
+                    {item.annotation
+                      ? <span className="text-amber-700">Note: {item.annotation}</span>
+                      : <span className="text-slate-300">+ note</span>}
+                  </EditableCell>
+                </td>
+                <td className="px-4 py-2 text-sm font-bold text-slate-600 align-top truncate" title={[item.ticker, item.company, item.sector].filter(Boolean).join(' · ')}>
+                  {item.ticker}
+                  {item.sector && <div className="text-xs font-normal text-slate-400 truncate">{item.sector}</div>}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-right text-sm font-medium align-top">
+                  <button
+                    onClick={() => onDelete([item.id])}
+                    className="text-red-500 hover:text-red-700 transition-colors"
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {lastRow < pageRows.length && <tr style={{ height: (pageRows.length - lastRow) * ROW_HEIGHT }} />}
+          </tbody>
+        </table>
+        {visible.length === 0 && (
+          <p className="p-6 text-center text-sm text-slate-400">No items match the current filters.</p>
+        )}
+      </div>
+
+      {/* Pagination */}
+      <div className="flex items-center justify-between px-3 py-2 border-t border-slate-200 bg-slate-50 text-xs text-slate-600">
+        <span>
+          {visible.length.toLocaleString()} of {data.length.toLocaleString()} items
+          {visible.length > 0 && <> · showing {(currentPage * pageSize + 1).toLocaleString()}–{(currentPage * pageSize + pageRows.length).toLocaleString()}</>}
+        </span>
+        <div className="flex items-center gap-2">
+          <select
+            value={pageSize}
+            onChange={(e) => { setPageSize(parseInt(e.target.value, 10)); goToPage(0); }}
+            className="rounded border-slate-300 border p-1 bg-white"
+          >
+            {PAGE_SIZES.map(size => <option key={size} value={size}>{size} / page</option>)}
+          </select>
+          <button onClick={() => goToPage(currentPage - 1)} disabled={currentPage === 0} className="px-2 py-1 rounded hover:bg-slate-200 disabled:opacity-40">‹ Prev</button>
+          <span>Page {currentPage + 1} / {pageCount}</span>
+          <button onClick={() => goToPage(currentPage + 1)} disabled={currentPage >= pageCount - 1} className="px-2 py-1 rounded hover:bg-slate-200 disabled:opacity-40">Next ›</button>
+        </div>
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
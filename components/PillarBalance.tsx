@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { NewsItem } from '../types';
+import { summarizeBalance, topicLabel } from '../services/classifier';
+import { PILLAR_LABELS, PILLARS } from '../services/labelingService';
+import { listProviders } from '../services/providers';
+
+interface PillarBalanceProps {
+  data: NewsItem[];
+  onClassifyLexicon: () => void;
+  onClassifyLLM: (providerId: string) => Promise<void>;
+}
+
+// Share above which one pillar is considered to dominate the dataset
+const SKEW_THRESHOLD = 0.5;
+
+const PILLAR_COLORS: Record<string, string> = { E: 'bg-emerald-500', S: 'bg-sky-500', G: 'bg-amber-500' };
+
+export const PillarBalance: React.FC<PillarBalanceProps> = ({ data, onClassifyLexicon, onClassifyLLM }) => {
+  const [isRefining, setIsRefining] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const classifiers = listProviders().filter(p => p.classify);
+  const [providerId, setProviderId] = useState(classifiers[0]?.id || '');
+
+  const balance = summarizeBalance(data);
+  const classified = balance.total - balance.unclassified;
+  const share = (count: number) => (classified ? count / classified : 0);
+  const dominant = PILLARS.find(p => share(balance.pillars[p]) > SKEW_THRESHOLD);
+
+  const handleRefine = async () => {
+    setIsRefining(true);
+    setMessage(null);
+    try {
+      await onClassifyLLM(providerId);
+      setMessage('LLM classification applied.');
+    } catch (err: any) {
+      setMessage(err.message || 'Classification failed.');
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-lg border border-slate-200 shadow-sm p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-slate-800">ESG Pillar Balance</h3>
+        <div className="flex items-center gap-2 text-xs">
+          <button
+            onClick={onClassifyLexicon}
+            disabled={data.length === 0 || isRefining}
+            className="px-2 py-1 rounded border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+          >
+            Reclassify (keywords)
+          </button>
+          {classifiers.length > 0 && (
+            <>
+              <select value={providerId} onChange={(e) => setProviderId(e.target.value)} className="rounded border-slate-300 border px-1 py-1">
+                {classifiers.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+              <button
+                onClick={handleRefine}
+                disabled={data.length === 0 || isRefining}
+                className="px-2 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-40"
+              >
+                {isRefining ? 'Classifying…' : 'Refine with LLM'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        {PILLARS.map(p => (
+          <div key={p} className="flex items-center gap-2 text-xs">
+            <span className="w-24 text-slate-600">{PILLAR_LABELS[p]}</span>
+            <div className="flex-1 bg-slate-100 rounded h-2">
+              <div className={`${PILLAR_COLORS[p]} h-2 rounded`} style={{ width: `${Math.round(share(balance.pillars[p]) * 100)}%` }} />
+            </div>
+            <span className="w-20 text-right text-slate-500">
+              {balance.pillars[p].toLocaleString()} ({Math.round(share(balance.pillars[p]) * 100)}%)
+            </span>
+          </div>
+        ))}
+        <p className="text-xs text-slate-400">{balance.unclassified.toLocaleString()} item(s) without an ESG pillar.</p>
+      </div>
+
+      {dominant && (
+        <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded px-2 py-1">
+          {PILLAR_LABELS[dominant]} makes up {Math.round(share(balance.pillars[dominant]) * 100)}% of classified items. Consider crawling more {PILLARS.filter(p => p !== dominant).map(p => PILLAR_LABELS[p]).join(' / ')} news before training.
+        </p>
+      )}
+
+      {balance.topics.length > 0 && (
+        <div className="flex flex-wrap gap-1 text-xs">
+          {balance.topics.slice(0, 8).map(t => (
+            <span key={t.id} className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600">
+              {topicLabel(t.id)} <b>{t.count}</b>
+            </span>
+          ))}
+        </div>
+      )}
+      {message && <p className="text-xs text-slate-500">{message}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { PromptPreset } from '../types';
+import { defaultPreset, deletePreset, getPreset, listPresets, MODEL_OPTIONS, PROMPT_VARIABLES, renderPrompt, savePreset, unknownVariables } from '../services/promptPresets';
+
+interface PromptPresetEditorProps {
+  mode: string;
+  presetId: string;
+  onSelect: (id: string) => void;
+  disabled?: boolean;
+}
+
+const inputClass = 'block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm p-1.5 border mt-0.5';
+
+const SAMPLE_VALUES = { ticker: 'XOM', startDate: '2024-01-01', endDate: '2024-01-31', count: 25 };
+
+export const PromptPresetEditor: React.FC<PromptPresetEditorProps> = ({ mode, presetId, onSelect, disabled }) => {
+  const presets = listPresets(mode);
+  const selected = getPreset(presetId) || defaultPreset(mode);
+  const [draft, setDraft] = useState<PromptPreset>(selected);
+  const [showPreview, setShowPreview] = useState(false);
+
+  // Switching presets (or modes) discards unsaved edits
+  useEffect(() => {
+    setDraft(selected);
+  }, [selected?.id, selected?.updatedAt]);
+
+  if (!draft) return null;
+
+  const update = (patch: Partial<PromptPreset>) => setDraft(prev => ({ ...prev, ...patch }));
+  const dirty = JSON.stringify(draft) !== JSON.stringify(selected);
+  const unknown = unknownVariables(draft.template);
+
+  const handleSave = (asNew: boolean) => {
+    const name = asNew && draft.name === selected.name ? `${draft.name} (copy)` : draft.name;
+    const saved = savePreset({ ...draft, name, builtIn: draft.builtIn || asNew });
+    setDraft(saved);
+    onSelect(saved.id);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the preset "${selected.name}"? Runs that reference it can no longer be resumed.`)) return;
+    deletePreset(selected.id);
+    onSelect(defaultPreset(mode).id);
+  };
+
+  return (
+    <details className="text-sm">
+      <summary className="font-medium text-slate-700 cursor-pointer">
+        Prompt &amp; Model <span className="font-normal text-slate-500">({selected.name}, {selected.model})</span>
+      </summary>
+      <div className="space-y-2 mt-2">
+        <select
+          value={selected.id}
+          disabled={disabled}
+          onChange={(e) => onSelect(e.target.value)}
+          className="block w-full rounded-md border-slate-300 shadow-sm text-sm p-1.5 border bg-slate-50"
+        >
+          {presets.map(p => <option key={p.id} value={p.id}>{p.name}{p.builtIn ? ' (built-in)' : ''}</option>)}
+        </select>
+
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-slate-500">
+            Name
+            <input type="text" value={draft.name} disabled={disabled} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+          </label>
+          <label className="text-xs text-slate-500">
+            Model
+            <input type="text" list="prompt-preset-models" value={draft.model} disabled={disabled} onChange={(e) => update({ model: e.target.value.trim() })} className={inputClass} />
+            <datalist id="prompt-preset-models">
+              {MODEL_OPTIONS.map(m => <option key={m} value={m} />)}
+            </datalist>
+          </label>
+          <label className="text-xs text-slate-500">
+            Temperature
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              max="2"
+              placeholder="Model default"
+              value={draft.temperature ?? ''}
+              disabled={disabled}
+              onChange={(e) => update({ temperature: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="text-xs text-slate-500">
+            Seed
+            <input
+              type="number"
+              step="1"
+              placeholder="Random"
+              value={draft.seed ?? ''}
+              disabled={disabled}
+              onChange={(e) => update({ seed: e.target.value === '' ? undefined : parseInt(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+        </div>
+
+        <label className="block text-xs text-slate-500">
+          Topics
+          <input type="text" value={draft.topics} disabled={disabled} onChange={(e) => update({ topics: e.target.value })} className={inputClass} />
+        </label>
+
+        <label className="block text-xs text-slate-500">
+          Template
+          <textarea
+            rows={8}
+            value={draft.template}
+            disabled={disabled}
+            onChange={(e) => update({ template: e.target.value })}
+            className={`${inputClass} font-mono text-xs`}
+          />
+        </label>
+        <p className="text-xs text-slate-500">
+          Variables: {PROMPT_VARIABLES.map(v => <code key={v.name} title={v.description} className="mr-1 text-indigo-600">{`{${v.name}}`}</code>)}
+        </p>
+        {unknown.length > 0 && (
+          <p className="text-xs text-amber-600">
+            Unknown variable{unknown.length === 1 ? '' : 's'} {unknown.map(v => `{${v}}`).join(', ')} will be sent as written.
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-2 text-xs">
+          {!selected.builtIn && (
+            <button onClick={() => handleSave(false)} disabled={disabled || !dirty} className="px-2 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">
+              Save
+            </button>
+          )}
+          <button onClick={() => handleSave(true)} disabled={disabled} className="px-2 py-1 rounded border border-indigo-300 text-indigo-700 hover:bg-indigo-50 disabled:opacity-50">
+            Save as New
+          </button>
+          {dirty && (
+            <button onClick={() => setDraft(selected)} className="px-2 py-1 rounded text-slate-500 hover:text-slate-700">
+              Discard
+            </button>
+          )}
+          {!selected.builtIn && (
+            <button onClick={handleDelete} disabled={disabled} className="ml-auto px-2 py-1 rounded text-slate-400 hover:text-red-600 disabled:opacity-50">
+              Delete
+            </button>
+          )}
+        </div>
+        {selected.builtIn && dirty && (
+          <p className="text-xs text-slate-500">Built-in presets can't be changed; save your edits as a new preset.</p>
+        )}
+
+        <button onClick={() => setShowPreview(!showPreview)} className="text-xs text-indigo-600 hover:underline">
+          {showPreview ? 'Hide preview' : 'Preview prompt'}
+        </button>
+        {showPreview && (
+          <pre className="text-xs bg-slate-50 border border-slate-200 rounded p-2 whitespace-pre-wrap max-h-48 overflow-y-auto">
+            {renderPrompt(draft.template, { ...SAMPLE_VALUES, topics: draft.topics }).trim()}
+          </pre>
+        )}
+      </div>
+    </details>
+  );
+};
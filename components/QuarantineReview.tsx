@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { QuarantinedItem, ValidationOptions, ValidationRule } from '../types';
+import { RULE_LABELS } from '../services/validationService';
+
+interface QuarantineReviewProps {
+  options: ValidationOptions;
+  onOptionsChange: (options: ValidationOptions) => void;
+  quarantined: QuarantinedItem[];
+  onRestore: (entry: QuarantinedItem) => void;
+  onClear: () => void;
+}
+
+const TOGGLES: { key: 'dateInWindow' | 'requireValidUrl' | 'englishOnly' | 'requireEsgKeywords' | 'requireVerified'; label: string }[] = [
+  { key: 'dateInWindow', label: 'Date in window' },
+  { key: 'requireValidUrl', label: 'Valid URL' },
+  { key: 'englishOnly', label: 'English only' },
+  { key: 'requireEsgKeywords', label: 'ESG keywords' },
+  { key: 'requireVerified', label: 'Verified sources only' },
+];
+
+export const QuarantineReview: React.FC<QuarantineReviewProps> = ({
+  options,
+  onOptionsChange,
+  quarantined,
+  onRestore,
+  onClear
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [ruleFilter, setRuleFilter] = useState<ValidationRule | ''>('');
+
+  const counts = new Map<ValidationRule, number>();
+  quarantined.forEach(q => q.issues.forEach(i => counts.set(i.rule, (counts.get(i.rule) || 0) + 1)));
+  const visible = ruleFilter ? quarantined.filter(q => q.issues.some(i => i.rule === ruleFilter)) : quarantined;
+
+  const numberInput = (key: 'minTextLength' | 'maxTextLength') => (
+    <input
+      type="number"
+      min="0"
+      value={options[key]}
+      disabled={!options.enabled}
+      onChange={(e) => onOptionsChange({ ...options, [key]: parseInt(e.target.value) || 0 })}
+      className="w-16 rounded border-slate-300 border px-1 py-0.5"
+    />
+  );
+
+  return (
+    <div className="mt-6 bg-white rounded-lg border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4">
+        <button onClick={() => setIsOpen(!isOpen)} className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+          <span>{isOpen ? '▾' : '▸'}</span>
+          Quarantined Items
+          <span className="bg-slate-100 text-slate-600 text-xs font-semibold px-2 py-0.5 rounded">{quarantined.length}</span>
+        </button>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={options.enabled}
+              onChange={(e) => onOptionsChange({ ...options, enabled: e.target.checked })}
+            />
+            Validate
+          </label>
+          {TOGGLES.map(t => (
+            <label key={t.key} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={options[t.key]}
+                disabled={!options.enabled}
+                onChange={(e) => onOptionsChange({ ...options, [t.key]: e.target.checked })}
+              />
+              {t.label}
+            </label>
+          ))}
+          <label className="flex items-center gap-1">
+            Length {numberInput('minTextLength')} – {numberInput('maxTextLength')}
+          </label>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="border-t border-slate-200">
+          {quarantined.length === 0 ? (
+            <p className="p-4 text-sm text-slate-400">No items quarantined in this session.</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-1 px-4 pt-3 text-xs">
+                <button
+                  onClick={() => setRuleFilter('')}
+                  className={`px-2 py-0.5 rounded ${ruleFilter === '' ? 'bg-indigo-100 text-indigo-700' : 'bg-slate-100 text-slate-600'}`}
+                >
+                  All
+                </button>
+                {Array.from(counts.entries()).map(([rule, count]) => (
+                  <button
+                    key={rule}
+                    onClick={() => setRuleFilter(rule)}
+                    className={`px-2 py-0.5 rounded ${ruleFilter === rule ? 'bg-indigo-100 text-indigo-700' : 'bg-slate-100 text-slate-600'}`}
+                  >
+                    {RULE_LABELS[rule]} {count}
+                  </button>
+                ))}
+              </div>
+              <ul className="divide-y divide-slate-100 max-h-96 overflow-y-auto">
+                {visible.map(entry => (
+                  <li key={entry.item.id} className="p-4 text-sm">
+                    <div className="flex items-center justify-between mb-1">
+                      <div className="flex flex-wrap gap-1">
+                        {entry.issues.map(issue => (
+                          <span key={issue.rule} className="text-xs font-semibold text-red-700 bg-red-50 px-2 py-0.5 rounded" title={issue.message}>
+                            {RULE_LABELS[issue.rule]}
+                          </span>
+                        ))}
+                      </div>
+                      <button onClick={() => onRestore(entry)} className="text-xs font-medium text-indigo-600 hover:text-indigo-800">
+                        Keep anyway
+                      </button>
+                    </div>
+                    <p className="text-slate-700 line-clamp-2" title={entry.item.text}>
+                      <span className="text-slate-400 mr-1">{entry.item.time}</span>{entry.item.text}
+                    </p>
+                    <p className="text-xs text-slate-400 mt-1">{entry.issues.map(i => i.message).join(' · ')}</p>
+                  </li>
+                ))}
+              </ul>
+              <div className="p-3 border-t border-slate-100 text-right">
+                <button onClick={onClear} className="text-xs text-slate-400 hover:text-slate-600">Clear list</button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React from 'react';
+import { CrawlChunk, CrawlRun } from '../types';
+import { summarizeRun, windowCoverage } from '../services/crawlPlan';
+import { mixReport } from '../services/syntheticMix';
+import { formatUsage, usageByModel } from '../services/costService';
+
+interface RunHistoryProps {
+  runs: CrawlRun[];
+  isGenerating: boolean;
+  onResume: (runId: string) => void;
+  onDiscard: (runId: string) => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  running: 'bg-indigo-100 text-indigo-700',
+  completed: 'bg-green-100 text-green-700',
+  stopped: 'bg-yellow-100 text-yellow-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+const coverageColor = (run: CrawlRun, chunk: CrawlChunk) => {
+  if (chunk.status === 'failed') return 'bg-red-400';
+  if (chunk.status === 'pending') return 'bg-slate-200';
+  const { ratio } = windowCoverage(run, chunk);
+  if (ratio >= 0.8) return 'bg-green-500';
+  if (ratio >= 0.4) return 'bg-amber-400';
+  return 'bg-orange-600';
+};
+
+export const RunHistory: React.FC<RunHistoryProps> = ({ runs, isGenerating, onResume, onDiscard }) => {
+  if (runs.length === 0) return null;
+
+  return (
+    <div className="mt-6 bg-white p-4 rounded-xl shadow-md border border-slate-100">
+      <h3 className="text-sm font-semibold text-slate-800 mb-3">Crawl Runs</h3>
+      <ul className="space-y-3">
+        {runs.map(run => {
+          const summary = summarizeRun(run);
+          const remaining = summary.pending + summary.failed;
+          // A run still marked "running" while nothing is generating was interrupted (tab closed / crash)
+          const status = run.status === 'running' && !isGenerating ? 'stopped' : run.status;
+          const pct = summary.total ? Math.round((summary.succeeded / summary.total) * 100) : 100;
+          const mix = mixReport(run);
+          const usage = usageByModel(run.chunks);
+
+          return (
+            <li key={run.id} className="text-xs text-slate-600 border-b border-slate-100 pb-3 last:border-0 last:pb-0">
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-medium text-slate-800 truncate" title={run.config.ticker}>{run.config.ticker}</span>
+                <span className={`px-1.5 py-0.5 rounded font-semibold ${STATUS_STYLES[status]}`}>{status}</span>
+              </div>
+              <div className="text-slate-500">
+                {run.config.startDate} → {run.config.endDate} · {run.config.mode}
+              </div>
+              <div className="w-full bg-slate-100 rounded h-1.5 my-1.5">
+                <div className="bg-indigo-500 h-1.5 rounded" style={{ width: `${pct}%` }} />
+              </div>
+              {/* Per-window coverage: kept items (including top-ups) against the window's target */}
+              <div className="flex gap-px h-2 mb-1.5">
+                {run.chunks.filter(c => !c.parentId).map(chunk => {
+                  const { items, requested } = windowCoverage(run, chunk);
+                  return (
+                    <div
+                      key={chunk.id}
+                      className={`flex-1 ${coverageColor(run, chunk)}`}
+                      title={`${chunk.start} → ${chunk.end}: ${items}/${requested} items${chunk.received !== undefined ? ` (${chunk.received} received)` : ''}`}
+                    />
+                  );
+                })}
+              </div>
+              <div className="flex items-center justify-between">
+                <span>
+                  {summary.succeeded}/{summary.total} windows · {summary.items}/{summary.requested} items ({Math.round(summary.coverage * 100)}%)
+                  {summary.topUps > 0 && <> · {summary.topUps} top-ups</>}
+                  {usage.length > 0 && (
+                    <span title={usage.map(t => `${t.model}: ${t.requests} requests, ${t.promptTokens.toLocaleString()} prompt / ${t.outputTokens.toLocaleString()} output tokens, ${t.searchCalls} searches`).join('\n')}>
+                      {' '}· {formatUsage(usage)}
+                    </span>
+                  )}
+                  {summary.failed > 0 && <span className="text-red-600"> · {summary.failed} failed</span>}
+                </span>
+                <span className="flex gap-2">
+                  {remaining > 0 && (
+                    <button
+                      onClick={() => onResume(run.id)}
+                      disabled={isGenerating}
+                      className={`font-medium text-indigo-600 hover:text-indigo-800 ${isGenerating ? 'opacity-50 cursor-not-allowed' : ''}`}
+                    >
+                      {summary.pending > 0 ? 'Resume' : 'Retry failed'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onDiscard(run.id)}
+                    disabled={isGenerating}
+                    className={`text-slate-400 hover:text-red-600 ${isGenerating ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  >
+                    Discard
+                  </button>
+                </span>
+              </div>
+              {/* Synthetic targets: share of the kept items per value against the requested share */}
+              {mix.length > 0 && (
+                <details className="mt-1">
+                  <summary className="cursor-pointer text-slate-500">Target mix (achieved / requested)</summary>
+                  <table className="w-full mt-1">
+                    <tbody>
+                      {mix.map(row => {
+                        const off = row.dimension === 'event'
+                          ? row.achieved < row.requested
+                          : Math.abs(row.achieved - row.requested) > Math.max(1, row.requested * 0.1);
+                        return (
+                          <tr key={`${row.dimension}-${row.key}`}>
+                            <td className="text-slate-400 pr-2">{row.dimension}</td>
+                            <td className="truncate max-w-[10rem]" title={row.key}>{row.key}</td>
+                            <td className={`text-right font-mono ${off ? 'text-amber-600' : ''}`}>
+                              {row.achieved} / {row.requested}
+                              {row.targetShare !== undefined && run.mix?.total > 0 && (
+                                <span className="text-slate-400"> ({Math.round((row.achieved / run.mix.total) * 100)}% / {Math.round(row.targetShare * 100)}%)</span>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </details>
+              )}
+              {summary.failed > 0 && (
+                <p className="text-red-500 mt-1 truncate" title={run.chunks.find(c => c.status === 'failed')?.error}>
+                  Last error: {run.chunks.find(c => c.status === 'failed')?.error}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { SyntheticEvent, SyntheticTargets } from '../types';
+import { formatWeights, hasTargets, parseWeights, PILLAR_VALUES, SENTIMENT_VALUES } from '../services/syntheticMix';
+
+interface SyntheticMixEditorProps {
+  value: SyntheticTargets;
+  onChange: (value: SyntheticTargets) => void;
+  startDate: string;
+  endDate: string;
+  disabled?: boolean;
+}
+
+const inputClass = 'block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm p-1.5 border mt-0.5';
+
+const PILLAR_LABELS: Record<string, string> = { E: 'Environmental', S: 'Social', G: 'Governance' };
+
+export const SyntheticMixEditor: React.FC<SyntheticMixEditorProps> = ({ value, onChange, startDate, endDate, disabled }) => {
+  // Kept as typed so half-finished entries like "Reuters:" don't vanish while editing
+  const [publisherText, setPublisherText] = useState(formatWeights(value.publisher));
+
+  const setWeight = (dimension: 'sentiment' | 'pillar', key: string, weight: string) => {
+    const next: Record<string, number> = { ...value[dimension], [key]: parseFloat(weight) || 0 };
+    onChange({ ...value, [dimension]: Object.values(next).some(w => w > 0) ? next : undefined });
+  };
+
+  const events = value.events || [];
+  const setEvents = (next: SyntheticEvent[]) => onChange({ ...value, events: next.length ? next : undefined });
+  const updateEvent = (index: number, patch: Partial<SyntheticEvent>) =>
+    setEvents(events.map((e, i) => i === index ? { ...e, ...patch } : e));
+
+  const weightInputs = (dimension: 'sentiment' | 'pillar', keys: readonly string[], labels?: Record<string, string>) => (
+    <div className="grid grid-cols-3 gap-2">
+      {keys.map(key => (
+        <label key={key} className="text-xs text-slate-500 capitalize">
+          {labels?.[key] || key}
+          <input
+            type="number"
+            min="0"
+            placeholder="—"
+            value={value[dimension]?.[key] || ''}
+            disabled={disabled}
+            onChange={(e) => setWeight(dimension, key, e.target.value)}
+            className={inputClass}
+          />
+        </label>
+      ))}
+    </div>
+  );
+
+  return (
+    <details className="text-sm">
+      <summary className="font-medium text-slate-700 cursor-pointer">
+        Synthetic Mix {hasTargets(value) && <span className="font-normal text-indigo-600">(targets set)</span>}
+      </summary>
+      <div className="space-y-3 mt-2">
+        <p className="text-xs text-slate-500">
+          Relative weights, e.g. 40 / 40 / 20. Each window is asked for the counts that keep the run on target; leave a group empty to let the model choose.
+        </p>
+
+        <div>
+          <div className="text-xs font-medium text-slate-600 mb-1">Sentiment</div>
+          {weightInputs('sentiment', SENTIMENT_VALUES)}
+        </div>
+
+        <div>
+          <div className="text-xs font-medium text-slate-600 mb-1">ESG Pillar</div>
+          {weightInputs('pillar', PILLAR_VALUES, PILLAR_LABELS)}
+        </div>
+
+        <label className="block text-xs font-medium text-slate-600">
+          Publisher Style
+          <input
+            type="text"
+            placeholder="Reuters: 40, Bloomberg: 40, Trade press: 20"
+            value={publisherText}
+            disabled={disabled}
+            onChange={(e) => {
+              setPublisherText(e.target.value);
+              const weights = parseWeights(e.target.value);
+              onChange({ ...value, publisher: Object.keys(weights).length ? weights : undefined });
+            }}
+            className={`${inputClass} font-normal`}
+          />
+        </label>
+
+        <div>
+          <div className="text-xs font-medium text-slate-600 mb-1">Injected Events</div>
+          {events.map((event, i) => (
+            <div key={i} className="rounded border border-slate-200 p-2 mb-2 space-y-1.5">
+              <input
+                type="text"
+                placeholder='e.g. "Governance scandal: CFO resigns over accounting probe"'
+                value={event.description}
+                disabled={disabled}
+                onChange={(e) => updateEvent(i, { description: e.target.value })}
+                className={inputClass}
+              />
+              <div className="grid grid-cols-[1fr_1fr_4rem_auto] gap-1.5 items-end">
+                <label className="text-xs text-slate-500">
+                  From
+                  <input type="date" value={event.start} disabled={disabled} onChange={(e) => updateEvent(i, { start: e.target.value })} className={inputClass} />
+                </label>
+                <label className="text-xs text-slate-500">
+                  To
+                  <input type="date" value={event.end} disabled={disabled} onChange={(e) => updateEvent(i, { end: e.target.value })} className={inputClass} />
+                </label>
+                <label className="text-xs text-slate-500">
+                  Items
+                  <input
+                    type="number"
+                    min="1"
+                    value={event.items}
+                    disabled={disabled}
+                    onChange={(e) => updateEvent(i, { items: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className={inputClass}
+                  />
+                </label>
+                <button
+                  onClick={() => setEvents(events.filter((_, j) => j !== i))}
+                  disabled={disabled}
+                  className="text-xs text-slate-400 hover:text-red-600 pb-2"
+                >
+                  Remove
+                </button>
+              </div>
+              {(event.end < startDate || event.start >= endDate) && (
+                <p className="text-xs text-amber-600">Outside the crawl range; no window will ask for it.</p>
+              )}
+            </div>
+          ))}
+          <button
+            onClick={() => setEvents([...events, { description: '', start: startDate, end: startDate, items: 3 }])}
+            disabled={disabled}
+            className="text-xs text-indigo-600 hover:underline disabled:opacity-50"
+          >
+            + Add event
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,94 @@
+import { Classification, EsgPillar, NewsItem } from "../types";
+
+// Local keyword/lexicon classifier for ESG pillars and topics
+export interface Topic {
+  id: string;
+  label: string;
+  pillar?: EsgPillar; // Cross-cutting topics (e.g. ESG ratings) have no single pillar
+  keywords: string[];
+}
+
+export const TOPIC_TAXONOMY: Topic[] = [
+  { id: 'climate_emissions', label: 'Climate & Emissions', pillar: 'E', keywords: ['carbon', 'emission', 'emissions', 'net zero', 'net-zero', 'greenhouse', 'climate', 'decarboni', 'scope 3', 'methane'] },
+  { id: 'energy_transition', label: 'Energy Transition', pillar: 'E', keywords: ['renewable', 'solar', 'wind power', 'clean energy', 'electric vehicle', 'ev ', 'coal', 'fossil fuel', 'battery', 'hydrogen'] },
+  { id: 'pollution_waste', label: 'Pollution & Waste', pillar: 'E', keywords: ['pollution', 'oil spill', 'spill', 'waste', 'plastic', 'toxic', 'contamination', 'recycling'] },
+  { id: 'water_biodiversity', label: 'Water & Biodiversity', pillar: 'E', keywords: ['water', 'deforestation', 'biodiversity', 'drought', 'ecosystem'] },
+  { id: 'diversity_inclusion', label: 'Diversity & Inclusion', pillar: 'S', keywords: ['diversity', 'inclusion', 'gender', 'dei', 'women', 'minority', 'racial', 'equity', 'pay gap'] },
+  { id: 'labor_human_rights', label: 'Labor & Human Rights', pillar: 'S', keywords: ['labor', 'labour', 'worker', 'workers', 'union', 'strike', 'wage', 'wages', 'human rights', 'forced labor', 'layoff', 'layoffs'] },
+  { id: 'health_safety', label: 'Health & Safety', pillar: 'S', keywords: ['safety', 'injury', 'fatality', 'recall', 'opioid', 'public health'] },
+  { id: 'data_privacy', label: 'Data Privacy & Security', pillar: 'S', keywords: ['privacy', 'data breach', 'cyber', 'cybersecurity', 'hack', 'gdpr'] },
+  { id: 'community', label: 'Community & Philanthropy', pillar: 'S', keywords: ['community', 'philanthrop', 'donation', 'charity', 'affordable housing'] },
+  { id: 'board_leadership', label: 'Board & Leadership', pillar: 'G', keywords: ['board of directors', 'board', 'ceo', 'chairman', 'director', 'succession', 'independent director'] },
+  { id: 'executive_pay', label: 'Executive Pay', pillar: 'G', keywords: ['executive compensation', 'compensation', 'executive pay', 'bonus', 'say on pay', 'stock options'] },
+  { id: 'governance_scandal', label: 'Governance Scandals', pillar: 'G', keywords: ['fraud', 'scandal', 'investigation', 'sec ', 'lawsuit', 'bribery', 'corruption', 'settlement', 'misconduct', 'accounting'] },
+  { id: 'shareholder_rights', label: 'Shareholder Rights', pillar: 'G', keywords: ['shareholder', 'proxy', 'activist investor', 'annual meeting', 'voting rights', 'dual-class'] },
+  { id: 'esg_ratings_index', label: 'ESG Ratings & Index Rebalancing', keywords: ['esg index', 'rebalanc', 'index inclusion', 'removed from the', 'esg rating', 'msci', 'sustainalytics', 'esg score', 'esg fund'] },
+];
+
+export const topicLabel = (id: string) => TOPIC_TAXONOMY.find(t => t.id === id)?.label || id;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Keywords match at a word start; trailing spaces in a keyword (e.g. 'sec ') force a word end
+const TOPIC_PATTERNS = TOPIC_TAXONOMY.map(topic => ({
+  topic,
+  patterns: topic.keywords.map(k => new RegExp(`\\b${escapeRegExp(k.trimEnd())}${k.endsWith(' ') ? '\\b' : ''}`, 'gi')),
+}));
+
+export const classifyText = (text: string): Omit<Classification, 'id'> => {
+  const scores: { topic: Topic; score: number }[] = [];
+  TOPIC_PATTERNS.forEach(({ topic, patterns }) => {
+    const score = patterns.reduce((sum, p) => sum + (text.match(p)?.length || 0), 0);
+    if (score > 0) scores.push({ topic, score });
+  });
+  scores.sort((a, b) => b.score - a.score);
+
+  const pillarScores = new Map<EsgPillar, number>();
+  scores.forEach(({ topic, score }) => {
+    if (topic.pillar) pillarScores.set(topic.pillar, (pillarScores.get(topic.pillar) || 0) + score);
+  });
+
+  return {
+    pillars: Array.from(pillarScores.entries()).sort((a, b) => b[1] - a[1]).map(([pillar]) => pillar),
+    topics: scores.map(s => s.topic.id),
+  };
+};
+
+export const classifyItem = (item: NewsItem): NewsItem => {
+  const text = [item.headline, item.summary, item.manualText || !item.headline ? item.text : ''].filter(Boolean).join(' ');
+  return { ...item, ...classifyText(text), classifiedBy: 'lexicon' };
+};
+
+export const applyClassifications = (items: NewsItem[], results: Classification[], classifiedBy: string): NewsItem[] => {
+  const byId = new Map(results.map(r => [r.id, r]));
+  return items.map(item => {
+    const result = byId.get(item.id);
+    return result ? { ...item, pillars: result.pillars, topics: result.topics, classifiedBy } : item;
+  });
+};
+
+export interface PillarBalance {
+  total: number;
+  unclassified: number;
+  pillars: Record<EsgPillar, number>; // Items whose primary (strongest) pillar is this one
+  topics: { id: string; count: number }[];
+}
+
+export const summarizeBalance = (items: NewsItem[]): PillarBalance => {
+  const pillars: Record<EsgPillar, number> = { E: 0, S: 0, G: 0 };
+  const topics = new Map<string, number>();
+  let unclassified = 0;
+
+  items.forEach(item => {
+    if (item.pillars && item.pillars.length > 0) pillars[item.pillars[0]]++;
+    else unclassified++;
+    item.topics?.forEach(t => topics.set(t, (topics.get(t) || 0) + 1));
+  });
+
+  return {
+    total: items.length,
+    unclassified,
+    pillars,
+    topics: Array.from(topics.entries()).map(([id, count]) => ({ id, count })).sort((a, b) => b.count - a.count),
+  };
+};
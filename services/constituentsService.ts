@@ -0,0 +1,92 @@
+import { Constituent, GenerationConfig, RejectedRow } from "../types";
+import { normalizeDate, parseImportFile } from "./importService";
+import { getPreference, setPreference } from "./storageService";
+
+// Point-in-time index membership, used to expand index/sector scopes into per-company crawls
+const HEADER_ALIASES: Record<string, keyof Constituent> = {
+  ticker: 'ticker', symbol: 'ticker',
+  name: 'name', company: 'name', security: 'name', company_name: 'name',
+  sector: 'sector', gics_sector: 'sector', 'gics sector': 'sector',
+  joined: 'joined', date_added: 'joined', 'date added': 'joined', start: 'joined', start_date: 'joined', added: 'joined',
+  left: 'left', date_removed: 'left', 'date removed': 'left', end: 'left', end_date: 'left', removed: 'left',
+};
+
+let constituents: Constituent[] = getPreference<Constituent[]>('constituents', []);
+
+export const getConstituents = () => constituents;
+
+export const clearConstituents = () => {
+  constituents = [];
+  setPreference('constituents', []);
+};
+
+export const parseConstituents = (content: string, fileName: string): { constituents: Constituent[]; rejected: RejectedRow[] } => {
+  const parsed = parseImportFile(content, fileName);
+  const rejected: RejectedRow[] = [...parsed.rejected];
+  const rows: Constituent[] = [];
+
+  parsed.records.forEach(record => {
+    const fields: Partial<Record<keyof Constituent, string>> = {};
+    Object.entries(record.values).forEach(([header, value]) => {
+      const key = HEADER_ALIASES[header.trim().toLowerCase()];
+      if (key && value.trim()) fields[key] = value.trim();
+    });
+
+    if (!fields.ticker) {
+      rejected.push({ row: record.row, reason: 'Missing ticker', raw: record.raw });
+      return;
+    }
+    const joined = fields.joined ? normalizeDate(fields.joined) : null;
+    const left = fields.left ? normalizeDate(fields.left) : null;
+    if ((fields.joined && !joined) || (fields.left && !left)) {
+      rejected.push({ row: record.row, reason: 'Unrecognized join/leave date', raw: record.raw });
+      return;
+    }
+    rows.push({
+      ticker: fields.ticker.toUpperCase(),
+      name: fields.name || fields.ticker,
+      sector: fields.sector || '',
+      joined: joined || undefined,
+      left: left || undefined,
+    });
+  });
+
+  return { constituents: rows, rejected };
+};
+
+export const loadConstituentsFile = async (file: File) => {
+  const result = parseConstituents(await file.text(), file.name);
+  constituents = result.constituents;
+  setPreference('constituents', constituents);
+  return result;
+};
+
+export const listSectors = (list: Constituent[] = constituents) =>
+  Array.from(new Set(list.map(c => c.sector).filter(Boolean))).sort();
+
+// Which constituents a scope label stands for: the whole index, a sector, or a single ticker.
+// Scopes without a membership equivalent (e.g. "ESG Index") return null and stay index-level.
+export const constituentsForScope = (scope: string, list: Constituent[] = constituents): Constituent[] | null => {
+  if (list.length === 0) return null;
+  const ticker = list.filter(c => c.ticker === scope.trim().toUpperCase());
+  if (ticker.length) return ticker;
+  if (/index \(overall\)|^s&p 500$/i.test(scope.trim())) return list;
+
+  const sectorKey = scope.replace(/s&p 500/i, '').replace(/sector/i, '').trim().toLowerCase();
+  if (!sectorKey) return null;
+  const sector = list.filter(c => c.sector.toLowerCase().includes(sectorKey));
+  return sector.length ? sector : null;
+};
+
+// One config per company, clipped to the dates it was actually in the index
+export const expandScope = (config: GenerationConfig, list: Constituent[] = constituents): GenerationConfig[] | null => {
+  const members = constituentsForScope(config.ticker, list);
+  if (!members) return null;
+
+  return members.flatMap(c => {
+    const startDate = c.joined && c.joined > config.startDate ? c.joined : config.startDate;
+    const endDate = c.left && c.left < config.endDate ? c.left : config.endDate;
+    if (startDate >= endDate) return [];
+    return [{ ...config, ticker: c.ticker, company: c.name, sector: c.sector || undefined, startDate, endDate }];
+  });
+};
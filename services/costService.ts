@@ -0,0 +1,108 @@
+import { GenerateContentResponseUsageMetadata } from "@google/genai";
+import { ChunkRequest, CrawlChunk, GenerationConfig, GenerationMode, TokenUsage, UsageTotals } from "../types";
+import { planChunks } from "./crawlPlan";
+import { defaultPreset, getPreset } from "./promptPresets";
+
+// API cost: usage recorded per window, running totals by model, and estimates from a chunk plan
+
+interface ModelPricing {
+  input: number;             // USD per 1M prompt tokens
+  output: number;            // USD per 1M output tokens (thinking included)
+  search: number;            // USD per 1k billed search units
+  searchPerQuery: boolean;   // Billed per search query rather than per grounded request
+  thinkingTokens: number;    // Rough thinking tokens per request, for estimates only
+}
+
+// Paid-tier list prices (prompts up to 200k tokens), before free allowances. Update when Google changes them.
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-3-pro-preview': { input: 2, output: 12, search: 14, searchPerQuery: true, thinkingTokens: 2000 },
+  'gemini-2.5-pro': { input: 1.25, output: 10, search: 35, searchPerQuery: false, thinkingTokens: 1500 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, search: 35, searchPerQuery: false, thinkingTokens: 800 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, search: 35, searchPerQuery: false, thinkingTokens: 0 },
+};
+
+// Unknown models are priced like the most expensive one, so estimates err on the high side
+const FALLBACK_MODEL = 'gemini-3-pro-preview';
+
+// Estimate inputs: response size per item matches the rate limiter's estimate; search figures are typical for one grounded request
+const OUTPUT_TOKENS_PER_ITEM = 150;
+const PROMPT_OVERHEAD_TOKENS = 100;
+const SEARCH_CALLS_PER_REQUEST = 3;
+const SEARCH_PROMPT_TOKENS = 2000;
+
+// Longest matching prefix, so versioned ids like "gemini-2.5-flash-001" find their family
+export const pricingFor = (model: string): ModelPricing => {
+  const key = Object.keys(MODEL_PRICING)
+    .filter(id => model.startsWith(id))
+    .sort((a, b) => b.length - a.length)[0];
+  return MODEL_PRICING[key || FALLBACK_MODEL];
+};
+
+export const usageFromResponse = (meta: GenerateContentResponseUsageMetadata | undefined, searchQueries: string[] = []): TokenUsage => ({
+  promptTokens: (meta?.promptTokenCount || 0) + (meta?.toolUsePromptTokenCount || 0),
+  outputTokens: (meta?.candidatesTokenCount || 0) + (meta?.thoughtsTokenCount || 0),
+  searchCalls: searchQueries.length,
+});
+
+export const requestCost = (model: string, usage: TokenUsage) => {
+  const price = pricingFor(model);
+  const searchUnits = price.searchPerQuery ? usage.searchCalls : usage.searchCalls > 0 ? 1 : 0;
+  return (usage.promptTokens * price.input + usage.outputTokens * price.output) / 1_000_000 + searchUnits * price.search / 1000;
+};
+
+const addTotals = (totals: UsageTotals[], entry: UsageTotals): UsageTotals[] => {
+  const existing = totals.find(t => t.model === entry.model);
+  if (!existing) return [...totals, entry];
+  return totals.map(t => t === existing ? {
+    model: t.model,
+    requests: t.requests + entry.requests,
+    promptTokens: t.promptTokens + entry.promptTokens,
+    outputTokens: t.outputTokens + entry.outputTokens,
+    searchCalls: t.searchCalls + entry.searchCalls,
+    cost: t.cost + entry.cost,
+  } : t);
+};
+
+export const addUsage = (totals: UsageTotals[], request?: Partial<ChunkRequest>): UsageTotals[] =>
+  request?.usage && request.model
+    ? addTotals(totals, { model: request.model, requests: 1, ...request.usage, cost: request.cost ?? requestCost(request.model, request.usage) })
+    : totals;
+
+// Recorded usage of some windows, e.g. all chunks of a run
+export const usageByModel = (chunks: CrawlChunk[]): UsageTotals[] =>
+  chunks.reduce((totals, chunk) => addUsage(totals, chunk.request), [] as UsageTotals[]);
+
+export const totalCost = (totals: UsageTotals[]) => totals.reduce((sum, t) => sum + t.cost, 0);
+
+// Expected usage of one window; null for providers that don't call a model (e.g. archives)
+export const estimateChunk = (config: GenerationConfig, chunk: CrawlChunk): UsageTotals | null => {
+  const preset = (config.presetId && getPreset(config.presetId)) || defaultPreset(config.mode);
+  if (!preset) return null;
+  const price = pricingFor(preset.model);
+  const grounded = config.mode === GenerationMode.LIVE_SEARCH;
+  const usage: TokenUsage = {
+    promptTokens: Math.ceil(preset.template.length / 4) + PROMPT_OVERHEAD_TOKENS + (grounded ? SEARCH_PROMPT_TOKENS : 0),
+    outputTokens: chunk.count * OUTPUT_TOKENS_PER_ITEM + price.thinkingTokens,
+    searchCalls: grounded ? SEARCH_CALLS_PER_REQUEST : 0,
+  };
+  return { model: preset.model, requests: 1, ...usage, cost: requestCost(preset.model, usage) };
+};
+
+// Planned windows only; top-ups for under-filled windows come on top
+export const estimatePlan = (plans: { config: GenerationConfig; chunks: CrawlChunk[] }[]): UsageTotals[] =>
+  plans.reduce((totals, { config, chunks }) =>
+    chunks.reduce((acc, chunk) => {
+      const estimate = estimateChunk(config, chunk);
+      return estimate ? addTotals(acc, estimate) : acc;
+    }, totals), [] as UsageTotals[]);
+
+export const estimateConfigs = (configs: GenerationConfig[]) =>
+  estimatePlan(configs.map(config => ({ config, chunks: planChunks(config) })));
+
+export const formatCost = (usd: number) => usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+
+// e.g. "$1.24 (gemini-3-pro-preview $1.10, gemini-2.5-flash $0.14)"
+export const formatUsage = (totals: UsageTotals[]) => {
+  const total = formatCost(totalCost(totals));
+  return totals.length > 1 ? `${total} (${totals.map(t => `${t.model} ${formatCost(t.cost)}`).join(', ')})` : total;
+};
@@ -0,0 +1,97 @@
+import { NewsItem } from "../types";
+import { sourceOf } from "./datasetQuery";
+
+// Items per day / week / month across a date range, for spotting holes in a long collection
+export type Granularity = 'day' | 'week' | 'month';
+export type CoverageSplit = 'mode' | 'source';
+
+export interface CoverageBucket {
+  start: string;   // YYYY-MM-DD, inclusive
+  end: string;     // YYYY-MM-DD, exclusive (start of the next bucket)
+  days: number;
+  total: number;
+  expected: number;
+  series: Record<string, number>;
+}
+
+// Below this share of the itemsPerDay target a bucket counts as sparse
+export const SPARSE_RATIO = 0.5;
+// Sources beyond the largest few are folded into "Other" to keep the legend readable
+const MAX_SERIES = 6;
+export const OTHER_SERIES = 'Other';
+
+const DAY_MS = 86400000;
+
+const toDate = (value: string) => new Date(`${value}T00:00:00Z`);
+const toIso = (date: Date) => date.toISOString().split('T')[0];
+
+const bucketStart = (date: Date, granularity: Granularity) => {
+  const d = new Date(date);
+  if (granularity === 'week') d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7)); // Monday
+  if (granularity === 'month') d.setUTCDate(1);
+  return d;
+};
+
+const nextBucket = (date: Date, granularity: Granularity) => {
+  const d = new Date(date);
+  if (granularity === 'day') d.setUTCDate(d.getUTCDate() + 1);
+  if (granularity === 'week') d.setUTCDate(d.getUTCDate() + 7);
+  if (granularity === 'month') d.setUTCMonth(d.getUTCMonth() + 1);
+  return d;
+};
+
+export const seriesKeyOf = (item: NewsItem, split: CoverageSplit) =>
+  (split === 'mode' ? item.provider : sourceOf(item)) || 'Unknown';
+
+export const buildCoverage = (
+  items: NewsItem[],
+  from: string,
+  to: string,
+  granularity: Granularity,
+  split: CoverageSplit,
+  itemsPerDay: number
+): { buckets: CoverageBucket[]; series: string[] } => {
+  if (!from || !to || from > to) return { buckets: [], series: [] };
+
+  const rangeStart = toDate(from);
+  const rangeEnd = new Date(toDate(to).getTime() + DAY_MS); // `to` is inclusive
+  const buckets: CoverageBucket[] = [];
+  for (let d = bucketStart(rangeStart, granularity); d < rangeEnd; d = nextBucket(d, granularity)) {
+    // Clip the first and last bucket to the range so partial weeks/months aren't flagged as sparse
+    const start = d < rangeStart ? rangeStart : d;
+    const next = nextBucket(d, granularity);
+    const end = next > rangeEnd ? rangeEnd : next;
+    const days = Math.round((end.getTime() - start.getTime()) / DAY_MS);
+    buckets.push({ start: toIso(start), end: toIso(end), days, total: 0, expected: days * itemsPerDay, series: {} });
+  }
+
+  const inRange = items.filter(item => item.time >= from && item.time <= to);
+  const counts = new Map<string, number>();
+  inRange.forEach(item => {
+    const key = seriesKeyOf(item, split);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([key]) => key);
+  const kept = new Set(ranked.length > MAX_SERIES ? ranked.slice(0, MAX_SERIES - 1) : ranked);
+  const series = ranked.length > MAX_SERIES ? [...kept, OTHER_SERIES] : ranked;
+
+  // Buckets are sorted and contiguous, so a binary search finds each item's bucket
+  inRange.forEach(item => {
+    let lo = 0;
+    let hi = buckets.length - 1;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (buckets[mid].start <= item.time) lo = mid;
+      else hi = mid - 1;
+    }
+    const bucket = buckets[lo];
+    if (!bucket) return;
+    const key = kept.has(seriesKeyOf(item, split)) ? seriesKeyOf(item, split) : OTHER_SERIES;
+    bucket.total++;
+    bucket.series[key] = (bucket.series[key] || 0) + 1;
+  });
+
+  return { buckets, series };
+};
+
+export const isSparse = (bucket: CoverageBucket) => bucket.total < bucket.expected * SPARSE_RATIO;
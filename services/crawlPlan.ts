@@ -0,0 +1,182 @@
+import { CrawlChunk, CrawlRun, CrawlWindow, GenerationConfig, NewsItem } from "../types";
+import { getPreset } from "./promptPresets";
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// Calculate optimal window to fetch ~25 items per request to maximize efficiency
+const TARGET_ITEMS_PER_REQ = 25;
+
+// Windows are half-open: each one ends where the next starts, and the last one at the config's (exclusive) end date
+export const planChunks = (config: GenerationConfig): CrawlChunk[] => {
+  // 1. Dynamic Chunking Strategy
+  const rawDays = Math.ceil(TARGET_ITEMS_PER_REQ / Math.max(0.1, config.itemsPerDay));
+  // Clamp: Min 5 days (avoid tiny requests), Max 60 days (avoid context limits)
+  const chunkDays = Math.max(5, Math.min(rawDays, 60));
+
+  // 2. Pre-calculate all chunks
+  const chunks: CrawlChunk[] = [];
+  let currentDate = new Date(config.startDate);
+  const finalDate = new Date(config.endDate);
+
+  while (currentDate < finalDate) {
+    const chunkEnd = new Date(currentDate);
+    chunkEnd.setDate(chunkEnd.getDate() + chunkDays);
+    const actualEnd = chunkEnd > finalDate ? finalDate : chunkEnd;
+
+    const daysInChunk = (actualEnd.getTime() - currentDate.getTime()) / (86400000);
+    const count = Math.ceil(daysInChunk * config.itemsPerDay);
+
+    if (count > 0) {
+      chunks.push({
+        id: `CH-${chunks.length}`,
+        start: currentDate.toISOString().split('T')[0],
+        end: actualEnd.toISOString().split('T')[0],
+        count,
+        status: 'pending',
+        itemCount: 0
+      });
+    }
+    currentDate = actualEnd;
+  }
+
+  return chunks;
+};
+
+export const createRun = (datasetId: string, config: GenerationConfig): CrawlRun => {
+  const now = new Date().toISOString();
+  return {
+    id: `RUN-${generateId()}`,
+    datasetId,
+    config,
+    chunks: planChunks(config),
+    status: 'running',
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+// Label shown for a queued job, e.g. "S&P 500 · SYNTHETIC · 2015-01-01 → 2025-11-01"; custom presets are named at the end
+export const describeConfig = (config: GenerationConfig) =>
+  `${config.company ? `${config.ticker} (${config.company})` : config.ticker} · ${config.mode} · ${config.startDate} → ${config.endDate}` +
+  (config.presetId ? ` · ${getPreset(config.presetId)?.name || config.presetId}` : '');
+
+// What the provider is asked to search for; per-company jobs name the company, not just the ticker
+export const scopeQuery = (config: GenerationConfig) =>
+  config.company ? `${config.company} (${config.ticker})` : config.ticker;
+
+// Round-robin over several lists, so interleaved jobs all make progress at once
+export const interleave = <T>(lists: T[][]): T[] => {
+  const result: T[] = [];
+  const longest = Math.max(0, ...lists.map(l => l.length));
+  for (let i = 0; i < longest; i++) {
+    lists.forEach(list => { if (i < list.length) result.push(list[i]); });
+  }
+  return result;
+};
+
+// Last day inside a window, for anything that needs an inclusive range (prompts, event dates)
+export const lastDay = (window: CrawlWindow) =>
+  new Date(new Date(window.end).getTime() - 86400000).toISOString().split('T')[0];
+
+// Only windows that never completed are re-crawled on resume/retry
+export const getRemainingChunks = (run: CrawlRun): CrawlChunk[] =>
+  run.chunks.filter(c => c.status !== 'succeeded');
+
+// Incremental updates: a scope is covered up to the day of its latest item or the end of its
+// latest completed window, whichever is later (a window can succeed with no news in it)
+export const coveredUntil = (config: GenerationConfig, items: NewsItem[], runs: CrawlRun[]): string | null => {
+  let latest: string | null = null;
+  items.forEach(item => {
+    const day = item.time.split('T')[0];
+    if (item.ticker === config.ticker && (!latest || day > latest)) latest = day;
+  });
+  runs.forEach(run => {
+    if (run.config.ticker !== config.ticker) return;
+    run.chunks.forEach(c => {
+      if (c.status === 'succeeded' && (!latest || c.end > latest)) latest = c.end;
+    });
+  });
+  return latest;
+};
+
+// Narrow a config to the dates after what is already covered, up to `today`; null when up to date.
+// The range starts on the latest covered day itself so later news from that day is picked up; dedup drops repeats.
+export const planUpdate = (config: GenerationConfig, items: NewsItem[], runs: CrawlRun[], today: string): GenerationConfig | null => {
+  const covered = coveredUntil(config, items, runs);
+  const startDate = covered && covered > config.startDate ? covered : config.startDate;
+  if (startDate >= today) return null;
+  return { ...config, startDate, endDate: today };
+};
+
+// The latest run config of every scope crawled into a dataset, keyed by ticker
+export const latestScopes = (runs: CrawlRun[]): Map<string, GenerationConfig> => {
+  const latestByScope = new Map<string, GenerationConfig>();
+  [...runs]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .forEach(run => latestByScope.set(run.config.ticker, run.config));
+  return latestByScope;
+};
+
+// One update per scope crawled into a dataset, reusing the mode and density of its latest run
+export const planUpdates = (items: NewsItem[], runs: CrawlRun[], today: string): GenerationConfig[] =>
+  Array.from(latestScopes(runs).values())
+    .map(config => planUpdate(config, items, runs, today))
+    .filter((config): config is GenerationConfig => config !== null);
+
+// Windows that received less than this share of their target are split and re-requested
+const SHORTFALL_RATIO = 0.8;
+const MAX_TOP_UP_DEPTH = 2;
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+// Split an under-filled window into sub-windows asking for the missing items; the halves meet at `mid`, as windows are half-open
+export const planTopUp = (chunk: CrawlChunk): CrawlChunk[] => {
+  const depth = chunk.depth || 0;
+  const shortfall = chunk.count - chunk.itemCount;
+  if (depth >= MAX_TOP_UP_DEPTH || chunk.itemCount >= chunk.count * SHORTFALL_RATIO) return [];
+
+  const days = Math.round((new Date(chunk.end).getTime() - new Date(chunk.start).getTime()) / 86400000);
+  const mid = addDays(chunk.start, Math.floor(days / 2));
+  const windows = days >= 2 ? [[chunk.start, mid], [mid, chunk.end]] : [[chunk.start, chunk.end]];
+
+  return windows.map(([start, end], i) => ({
+    id: `${chunk.id}.${i + 1}`,
+    start,
+    end,
+    count: Math.ceil(shortfall / windows.length),
+    status: 'pending',
+    itemCount: 0,
+    parentId: chunk.id,
+    depth: depth + 1
+  }));
+};
+
+// Kept items of a planned window and all of its top-ups, against what the window asked for
+export const windowCoverage = (run: CrawlRun, chunk: CrawlChunk) => {
+  const items = run.chunks
+    .filter(c => c.id === chunk.id || c.id.startsWith(`${chunk.id}.`))
+    .reduce((sum, c) => sum + c.itemCount, 0);
+  return { items, requested: chunk.count, ratio: chunk.count ? items / chunk.count : 1 };
+};
+
+export const summarizeRun = (run: CrawlRun) => {
+  const succeeded = run.chunks.filter(c => c.status === 'succeeded').length;
+  const failed = run.chunks.filter(c => c.status === 'failed').length;
+  const items = run.chunks.reduce((sum, c) => sum + c.itemCount, 0);
+  // Only planned windows count towards the target; top-ups re-request part of it
+  const requested = run.chunks.filter(c => !c.parentId).reduce((sum, c) => sum + c.count, 0);
+  return {
+    total: run.chunks.length,
+    succeeded,
+    failed,
+    pending: run.chunks.length - succeeded - failed,
+    items,
+    requested,
+    topUps: run.chunks.filter(c => c.parentId).length,
+    coverage: requested ? items / requested : 1
+  };
+};
@@ -0,0 +1,250 @@
+import {
+  CrawlChunk,
+  CrawlRun,
+  DedupOptions,
+  DroppedDuplicate,
+  GenerationMode,
+  JobExecution,
+  NewsItem,
+  QuarantinedItem,
+  TextTemplate,
+  UsageTotals,
+  ValidationOptions
+} from "../types";
+import { getProvider } from "./providers";
+import { getRemainingChunks, interleave, planTopUp, scopeQuery, summarizeRun } from "./crawlPlan";
+import { createDedupIndex } from "./dedupService";
+import { applyTextTemplate } from "./textTemplate";
+import { classifyItem } from "./classifier";
+import { validateItems } from "./validationService";
+import { classifyError, getScheduler } from "./rateLimiter";
+import { resolvePreset } from "./promptPresets";
+import { hasTargets, planChunkMix, tallyItems } from "./syntheticMix";
+import { addUsage, estimateChunk, formatCost, formatUsage, totalCost } from "./costService";
+
+// UI-independent crawl loop shared by the browser app and the CLI runner
+
+export interface CrawlOptions {
+  existing: NewsItem[];   // Already collected items, for dedup
+  dedup: DedupOptions;
+  validation: ValidationOptions;
+  textTemplate: TextTemplate;
+  maxConcurrency: number;
+  budget?: number;        // USD cap; no window starts that could take the spend past it
+  spent?: number;         // USD already spent by earlier calls of the same sequence, counted toward the budget
+  execution?: JobExecution;
+  jobIds?: Record<string, string>;   // Run id -> job id, for tagging items
+  shouldStop?: () => boolean;
+  isHeld?: (run: CrawlRun) => boolean;  // Paused/cancelled runs keep their windows pending
+  onBatch?: (run: CrawlRun, batch: CrawlBatch) => Promise<void> | void;
+  onCheckpoint?: (run: CrawlRun) => Promise<void> | void;
+  onProgress?: (stats: CrawlStats) => void;
+}
+
+export interface CrawlBatch {
+  chunk: CrawlChunk;
+  kept: NewsItem[];
+  dropped: DroppedDuplicate[];
+  quarantined: QuarantinedItem[];
+}
+
+export interface CrawlStats {
+  runs: number;
+  execution: JobExecution;
+  windows: number;
+  settled: number;
+  items: number;
+  duplicates: number;
+  quarantined: number;
+  errors: number;
+  requested: number;   // Target items of all planned windows in these runs
+  collected: number;   // Items kept in these runs, including earlier sessions
+  topUps: number;
+  concurrency: number;
+  requestsPerMinute: number;
+  rateLimited: number;
+  usage: UsageTotals[];  // Recorded in this call, by model
+  spent: number;         // Spent before this call
+  budget?: number;
+  budgetReached: boolean;
+  stopped: boolean;
+}
+
+// Link items to the run and window that produced them; per-company jobs also tag the real ticker and sector
+export const tagItem = (item: NewsItem, run: CrawlRun, chunk: CrawlChunk, jobId?: string): NewsItem => ({
+  ...item,
+  ...(run.config.company && { ticker: run.config.ticker, company: run.config.company, sector: run.config.sector }),
+  ...(jobId && { jobId }),
+  runId: run.id,
+  chunkId: chunk.id,
+});
+
+export const formatProgress = (stats: CrawlStats) => {
+  const coverage = stats.requested ? Math.round((stats.collected / stats.requested) * 100) : 100;
+  return `${stats.runs > 1 ? `Jobs: ${stats.runs} (${stats.execution}) | ` : ''}Windows ${stats.settled}/${stats.windows} | Coverage: ${coverage}%${stats.topUps ? ` (${stats.topUps} top-ups)` : ''} | Concurrency: ${stats.concurrency} | ${stats.requestsPerMinute} req/min | Total: ${stats.items} | Duplicates: ${stats.duplicates} | Quarantined: ${stats.quarantined} | Errors: ${stats.errors}${stats.rateLimited ? ` | Rate limited: ${stats.rateLimited}` : ''}${formatSpend(stats)}`;
+};
+
+const formatSpend = (stats: CrawlStats) => {
+  if (stats.usage.length === 0 && stats.budget === undefined) return '';
+  return ` | Cost: ${formatUsage(stats.usage)}${stats.spent ? ` + ${formatCost(stats.spent)} earlier` : ''}${stats.budget !== undefined ? ` of ${formatCost(stats.budget)} budget` : ''}`;
+};
+
+export const formatSummary = (stats: CrawlStats) => {
+  const coverage = stats.requested ? Math.round((stats.collected / stats.requested) * 100) : 100;
+  const cost = stats.usage.length ? ` Cost: ${formatUsage(stats.usage)}.` : '';
+  if (stats.budgetReached) {
+    return `Stopped at the ${formatCost(stats.budget)} budget. Total: ${stats.items}. Duplicates: ${stats.duplicates}. Quarantined: ${stats.quarantined}. Errors: ${stats.errors}.${cost}`;
+  }
+  return stats.stopped
+    ? `Stopped by user. Total: ${stats.items}. Duplicates: ${stats.duplicates}. Quarantined: ${stats.quarantined}. Errors: ${stats.errors}.${cost}`
+    : `Sequence Completed! Total: ${stats.items} (${coverage}% of target). Duplicates: ${stats.duplicates}. Quarantined: ${stats.quarantined}. Errors: ${stats.errors}.${cost}`;
+};
+
+// Process the unfinished windows of the given runs, checkpointing every chunk as it settles.
+// Sequential runs drain one after another; interleaved runs alternate windows so all progress together.
+// Fatal errors (e.g. a missing API key) mark the runs failed and are rethrown.
+export const crawlRuns = async (runs: CrawlRun[], options: CrawlOptions): Promise<CrawlStats> => {
+  const execution = options.execution || 'sequential';
+  const queues = runs.map(run => getRemainingChunks(run).map(chunk => ({ run, chunk })));
+  const tasks = execution === 'interleaved' ? interleave(queues) : queues.flat();
+  const shouldStop = options.shouldStop || (() => false);
+  const isHeld = options.isHeld || (() => false);
+
+  // Dedup against everything already collected, plus every batch of these runs as it arrives
+  const dedupIndex = createDedupIndex(options.existing, options.dedup);
+  const scheduler = getScheduler();
+
+  let items = 0;
+  let duplicates = 0;
+  let quarantined = 0;
+  let errors = 0;
+  let settled = 0;
+  let nextTask = 0;
+  let inFlight = 0;
+  let fatalError: any = null;
+  let usage: UsageTotals[] = [];
+  let reserved = 0;           // Estimated cost of the windows in flight
+  let budgetReached = false;
+
+  const stats = (): CrawlStats => {
+    const summaries = runs.map(summarizeRun);
+    const limiter = scheduler.stats();
+    return {
+      runs: runs.length,
+      execution,
+      windows: tasks.length,
+      settled,
+      items,
+      duplicates,
+      quarantined,
+      errors,
+      requested: summaries.reduce((sum, s) => sum + s.requested, 0),
+      collected: summaries.reduce((sum, s) => sum + s.items, 0),
+      topUps: summaries.reduce((sum, s) => sum + s.topUps, 0),
+      concurrency: limiter.concurrency,
+      requestsPerMinute: limiter.requestsLastMinute,
+      rateLimited: limiter.rateLimited,
+      usage,
+      spent: options.spent || 0,
+      budget: options.budget,
+      budgetReached,
+      stopped: shouldStop(),
+    };
+  };
+
+  const checkpoint = async (run: CrawlRun, status: CrawlRun['status']) => {
+    run.status = status;
+    run.updatedAt = new Date().toISOString();
+    await options.onCheckpoint?.(run);
+  };
+
+  const worker = async () => {
+    while (!shouldStop() && !fatalError && !budgetReached) {
+      // Stay alive while other workers may still queue top-ups
+      if (nextTask >= tasks.length) {
+        if (inFlight === 0) break;
+        await new Promise(r => setTimeout(r, 200));
+        continue;
+      }
+      const { run, chunk } = tasks[nextTask];
+      if (isHeld(run)) { nextTask++; continue; }
+      // Hard budget cap: the window is left pending if its estimate could take the spend past the budget
+      const estimate = estimateChunk(run.config, chunk)?.cost || 0;
+      if (options.budget !== undefined && (options.spent || 0) + totalCost(usage) + reserved + estimate > options.budget) {
+        budgetReached = true;
+        break;
+      }
+      nextTask++;
+      reserved += estimate;
+      inFlight++;
+      options.onProgress?.(stats());
+      const requestedAt = new Date().toISOString();
+      const started = Date.now();
+      try {
+        const provider = getProvider(run.config.mode);
+        const preset = resolvePreset(run.config.mode, run.config.presetId);
+        const targets = run.config.synthetic;
+        // Quotas follow what the run has kept so far, so later windows make up for skewed ones
+        const mix = run.config.mode === GenerationMode.SYNTHETIC && hasTargets(targets) ? planChunkMix(targets, run.mix, chunk) : undefined;
+        chunk.mix = mix;
+        const result = await provider.fetch({ start: chunk.start, end: chunk.end }, scopeQuery(run.config), chunk.count, { preset, mix });
+        const fetched = result.items;
+        chunk.request = { requestedAt, durationMs: Date.now() - started, ...result.request };
+        usage = addUsage(usage, result.request);
+        if (result.promptTemplate && result.request?.templateHash) {
+          run.prompts = { ...run.prompts, [result.request.templateHash]: result.promptTemplate };
+        }
+        const prepared = fetched
+          .map(item => tagItem(item, run, chunk, options.jobIds?.[run.id]))
+          .map(item => classifyItem(applyTextTemplate(item, options.textTemplate)));
+        const { valid, quarantined: failed } = validateItems(prepared, options.validation, chunk);
+        const { kept, dropped } = dedupIndex.filter(valid);
+        if (mix) run.mix = tallyItems(run.mix, kept, targets);
+        items += kept.length;
+        duplicates += dropped.length;
+        quarantined += failed.length;
+        // Persist immediately so an interruption mid-run keeps everything collected so far
+        await options.onBatch?.(run, { chunk, kept, dropped, quarantined: failed });
+        chunk.status = 'succeeded';
+        chunk.itemCount = kept.length;
+        chunk.received = fetched.length;
+        chunk.error = undefined;
+        // Re-request the missing part of an under-filled window in smaller sub-windows
+        const topUps = planTopUp(chunk);
+        run.chunks.push(...topUps);
+        tasks.push(...topUps.map(c => ({ run, chunk: c })));
+      } catch (err: any) {
+        console.error("Chunk failed", err);
+        errors++;
+        chunk.request = { requestedAt, durationMs: Date.now() - started };
+        chunk.status = 'failed';
+        chunk.error = err?.message || String(err);
+        // The scheduler already retried quota and transient errors; fatal ones end the run
+        if (classifyError(err) === 'FATAL') fatalError = fatalError || err;
+      }
+      reserved -= estimate;
+      inFlight--;
+      settled++;
+      await checkpoint(run, 'running');
+      options.onProgress?.(stats());
+    }
+  };
+
+  try {
+    for (const run of runs) await checkpoint(run, 'running');
+    // Top-ups add work as windows settle, so start every worker even for a single window; idle ones wait for top-ups
+    await Promise.all(Array.from({ length: Math.max(1, options.maxConcurrency) }, worker));
+    if (fatalError) throw fatalError;
+
+    for (const run of runs) {
+      const failed = run.chunks.some(c => c.status === 'failed');
+      await checkpoint(run, shouldStop() || budgetReached || isHeld(run) ? 'stopped' : failed ? 'failed' : 'completed');
+    }
+    return stats();
+  } catch (err) {
+    for (const run of runs) {
+      await Promise.resolve(checkpoint(run, 'failed')).catch(e => console.error("Failed to checkpoint run", e));
+    }
+    throw err;
+  }
+};
@@ -0,0 +1,73 @@
+import { EsgPillar, NewsItem } from "../types";
+
+// Search / filter / sort used by the dataset browser
+export interface DatasetFilters {
+  search: string;
+  from: string;      // YYYY-MM-DD, inclusive; '' = open
+  to: string;        // YYYY-MM-DD, inclusive; '' = open
+  source: string;    // '' = all
+  ticker: string;    // '' = all
+  provider: string;  // '' = all
+  pillar: string;    // '' = all, 'none' = unclassified
+  topic: string;     // '' = all
+  job: string;       // '' = all
+  verification: string; // '' = all, 'verified-only' = drop unverified and suspected rows, or one status
+}
+
+export type SortKey = 'time' | 'id' | 'text' | 'source' | 'ticker';
+
+export interface SortState {
+  key: SortKey;
+  direction: 'asc' | 'desc';
+}
+
+export const EMPTY_FILTERS: DatasetFilters = { search: '', from: '', to: '', source: '', ticker: '', provider: '', pillar: '', topic: '', job: '', verification: '' };
+
+export const sourceOf = (item: NewsItem) => item.publisher || item.source || '';
+
+// Distinct values for the filter dropdowns
+export const distinctValues = (items: NewsItem[], get: (item: NewsItem) => string | undefined): string[] =>
+  Array.from(new Set(items.map(get).filter((v): v is string => !!v))).sort((a, b) => a.localeCompare(b));
+
+export const applyFilters = (items: NewsItem[], filters: DatasetFilters): NewsItem[] => {
+  // Every search term must appear somewhere in the item's searchable fields
+  const terms = filters.search.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return items.filter(item => {
+    if (filters.from && item.time < filters.from) return false;
+    if (filters.to && item.time > filters.to) return false;
+    if (filters.source && sourceOf(item) !== filters.source) return false;
+    if (filters.ticker && item.ticker !== filters.ticker) return false;
+    if (filters.provider && item.provider !== filters.provider) return false;
+    if (filters.pillar === 'none' && item.pillars?.length) return false;
+    if (filters.pillar && filters.pillar !== 'none' && !item.pillars?.includes(filters.pillar as EsgPillar)) return false;
+    if (filters.topic && !item.topics?.includes(filters.topic)) return false;
+    if (filters.job && item.jobId !== filters.job) return false;
+    // Items outside live search were never cross-checked and are kept by "verified only"
+    if (filters.verification === 'verified-only' && item.verification && item.verification !== 'verified') return false;
+    if (filters.verification && filters.verification !== 'verified-only' && item.verification !== filters.verification) return false;
+
+    if (terms.length > 0) {
+      const haystack = [item.id, item.text, item.headline, item.summary, item.url, sourceOf(item), item.ticker]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+      if (!terms.every(term => haystack.includes(term))) return false;
+    }
+    return true;
+  });
+};
+
+const SORT_VALUES: Record<SortKey, (item: NewsItem) => string> = {
+  time: item => item.time,
+  id: item => item.id,
+  text: item => item.text,
+  source: sourceOf,
+  ticker: item => item.ticker,
+};
+
+export const sortItems = (items: NewsItem[], sort: SortState): NewsItem[] => {
+  const get = SORT_VALUES[sort.key];
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return [...items].sort((a, b) => sign * get(a).localeCompare(get(b)));
+};
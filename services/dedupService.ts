@@ -0,0 +1,173 @@
+import { DedupOptions, DroppedDuplicate, NewsItem } from "../types";
+
+// Deduplication across chunks and runs: normalized URL, exact headline and MinHash near-duplicates
+export const DEFAULT_DEDUP_OPTIONS: DedupOptions = { enabled: true, threshold: 0.75 };
+
+const NUM_HASHES = 64;
+const BANDS = 16;
+const ROWS_PER_BAND = NUM_HASHES / BANDS;
+const SHINGLE_SIZE = 5;
+
+// Query parameters that only track the click, not the article
+const TRACKING_PARAMS = /^(utm_.*|fbclid|gclid|cmpid|ocid|src|ref|taid|mod)$/i;
+
+export const normalizeUrl = (url?: string): string | null => {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url.trim());
+    const params = Array.from(parsed.searchParams.keys()).filter(k => !TRACKING_PARAMS.test(k)).sort();
+    const query = params.map(k => `${k}=${parsed.searchParams.get(k)}`).join('&');
+    const host = parsed.hostname.toLowerCase().replace(/^(www|m|amp)\./, '');
+    const path = parsed.pathname.replace(/\/(amp\/?)?$/, '').replace(/\/+$/, '');
+    return `${host}${path}${query ? `?${query}` : ''}`;
+  } catch {
+    return null;
+  }
+};
+
+const normalizeText = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+// Items collected before headlines were stored separately only have "<headline>. <summary>"
+export const normalizeHeadline = (item: NewsItem): string | null => {
+  const headline = item.headline ?? item.text.split('. ')[0];
+  const normalized = normalizeText(headline);
+  return normalized || null;
+};
+
+// FNV-1a 32-bit
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const HASH_SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => hashString(`minhash-seed-${i}`));
+
+const mix = (hash: number, seed: number) => {
+  let h = Math.imul(hash ^ seed, 0x9e3779b1);
+  h ^= h >>> 15;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  return h >>> 0;
+};
+
+// Character shingles tolerate small wording changes better than word n-grams on short snippets
+const shingles = (text: string): Set<number> => {
+  const normalized = normalizeText(text);
+  const result = new Set<number>();
+  if (normalized.length <= SHINGLE_SIZE) {
+    if (normalized) result.add(hashString(normalized));
+    return result;
+  }
+  for (let i = 0; i <= normalized.length - SHINGLE_SIZE; i++) {
+    result.add(hashString(normalized.slice(i, i + SHINGLE_SIZE)));
+  }
+  return result;
+};
+
+export const minHashSignature = (text: string): Uint32Array => {
+  const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+  shingles(text).forEach(shingle => {
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const value = mix(shingle, HASH_SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  });
+  return signature;
+};
+
+// Fraction of equal MinHash slots estimates the Jaccard similarity of the shingle sets
+export const estimateSimilarity = (a: Uint32Array, b: Uint32Array) => {
+  let equal = 0;
+  for (let i = 0; i < NUM_HASHES; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / NUM_HASHES;
+};
+
+const bandKeys = (signature: Uint32Array) =>
+  Array.from({ length: BANDS }, (_, band) =>
+    `${band}:${Array.from(signature.subarray(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND)).join('.')}`
+  );
+
+export interface DedupIndex {
+  // Split a batch into items to keep and duplicates to drop; kept items join the index
+  filter: (items: NewsItem[]) => { kept: NewsItem[]; dropped: DroppedDuplicate[] };
+  add: (item: NewsItem) => void;
+}
+
+// Build an index over already collected items; LSH banding keeps near-duplicate lookups sub-linear
+export const createDedupIndex = (existing: NewsItem[], options: DedupOptions): DedupIndex => {
+  const byUrl = new Map<string, string>();
+  const byHeadline = new Map<string, string>();
+  const signatures = new Map<string, Uint32Array>();
+  const buckets = new Map<string, string[]>();
+
+  const add = (item: NewsItem) => {
+    const url = normalizeUrl(item.url);
+    if (url && !byUrl.has(url)) byUrl.set(url, item.id);
+    const headline = normalizeHeadline(item);
+    if (headline && !byHeadline.has(headline)) byHeadline.set(headline, item.id);
+
+    const signature = minHashSignature(item.text);
+    signatures.set(item.id, signature);
+    bandKeys(signature).forEach(key => {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(item.id);
+      else buckets.set(key, [item.id]);
+    });
+  };
+
+  const findMatch = (item: NewsItem): Omit<DroppedDuplicate, 'item'> | null => {
+    const url = normalizeUrl(item.url);
+    if (url && byUrl.has(url)) {
+      return { reason: 'URL', matchedId: byUrl.get(url)!, similarity: 1 };
+    }
+    const headline = normalizeHeadline(item);
+    if (headline && byHeadline.has(headline)) {
+      return { reason: 'HEADLINE', matchedId: byHeadline.get(headline)!, similarity: 1 };
+    }
+
+    const signature = minHashSignature(item.text);
+    const candidates = new Set<string>();
+    bandKeys(signature).forEach(key => buckets.get(key)?.forEach(id => candidates.add(id)));
+
+    let best: Omit<DroppedDuplicate, 'item'> | null = null;
+    candidates.forEach(id => {
+      const similarity = estimateSimilarity(signature, signatures.get(id)!);
+      if (similarity >= options.threshold && (!best || similarity > best.similarity)) {
+        best = { reason: 'NEAR_DUPLICATE', matchedId: id, similarity };
+      }
+    });
+    return best;
+  };
+
+  existing.forEach(add);
+
+  return {
+    add,
+    filter: (items) => {
+      if (!options.enabled) {
+        items.forEach(add);
+        return { kept: items, dropped: [] };
+      }
+
+      const kept: NewsItem[] = [];
+      const dropped: DroppedDuplicate[] = [];
+      items.forEach(item => {
+        const match = findMatch(item);
+        if (match) {
+          dropped.push({ item, ...match });
+        } else {
+          add(item);
+          kept.push(item);
+        }
+      });
+      return { kept, dropped };
+    }
+  };
+};
@@ -0,0 +1,39 @@
+import { NewsItem } from "../types";
+
+// Undoable dataset edits: every change is "remove these versions, add these versions"
+export interface EditChange {
+  label: string;
+  removed: NewsItem[];
+  added: NewsItem[];
+}
+
+export const MAX_HISTORY = 100;
+
+export const invertChange = (change: EditChange): EditChange => ({
+  label: change.label,
+  removed: change.added,
+  added: change.removed,
+});
+
+// Replaced items keep their position; newly added ones are appended
+export const applyChangeToItems = (items: NewsItem[], change: EditChange): NewsItem[] => {
+  const added = new Map(change.added.map(item => [item.id, item]));
+  const removed = new Set(change.removed.map(item => item.id));
+
+  const result: NewsItem[] = [];
+  items.forEach(item => {
+    if (added.has(item.id)) {
+      result.push(added.get(item.id)!);
+      added.delete(item.id);
+    } else if (!removed.has(item.id)) {
+      result.push(item);
+    }
+  });
+  return [...result, ...added.values()];
+};
+
+// Ids that disappear entirely (not just replaced by a new version)
+export const deletedIds = (change: EditChange): string[] => {
+  const added = new Set(change.added.map(item => item.id));
+  return change.removed.map(item => item.id).filter(id => !added.has(id));
+};
@@ -0,0 +1,200 @@
+import { DateFormat, ExportColumn, ExportFormat, ExportOptions, NewsItem } from "../types";
+
+// Every field that can be exported; `quoted` fields are always wrapped in quotes in CSV
+interface ExportField {
+  key: string;
+  label: string;
+  quoted?: boolean;
+  get: (item: NewsItem) => string | undefined;
+}
+
+export const EXPORT_FIELDS: ExportField[] = [
+  { key: 'time', label: 'Time', get: item => item.time },
+  { key: 'id', label: 'Sample ID', get: item => item.id },
+  { key: 'text', label: 'text', quoted: true, get: item => item.text },
+  { key: 'source', label: 'source', quoted: true, get: item => item.source },
+  { key: 'headline', label: 'headline', quoted: true, get: item => item.headline },
+  { key: 'summary', label: 'summary', quoted: true, get: item => item.summary },
+  { key: 'url', label: 'url', quoted: true, get: item => item.url },
+  { key: 'publisher', label: 'publisher', quoted: true, get: item => item.publisher },
+  { key: 'ticker', label: 'ticker', quoted: true, get: item => item.ticker },
+  { key: 'provider', label: 'provider', get: item => item.provider },
+  { key: 'model', label: 'model', get: item => item.model },
+  { key: 'annotation', label: 'annotation', quoted: true, get: item => item.annotation },
+  { key: 'sentiment', label: 'sentiment', get: item => item.sentiment },
+  { key: 'pillar', label: 'pillar', get: item => item.pillar },
+  { key: 'labeledBy', label: 'labeled_by', quoted: true, get: item => item.labeledBy },
+  { key: 'pillars', label: 'esg_pillars', get: item => item.pillars?.join('|') },
+  { key: 'topics', label: 'topics', get: item => item.topics?.join('|') },
+  { key: 'jobId', label: 'job_id', get: item => item.jobId },
+  { key: 'company', label: 'company', quoted: true, get: item => item.company },
+  { key: 'sector', label: 'gics_sector', quoted: true, get: item => item.sector },
+  { key: 'runId', label: 'run_id', get: item => item.runId },
+  { key: 'chunkId', label: 'chunk_id', get: item => item.chunkId },
+  { key: 'verification', label: 'verification', get: item => item.verification },
+  { key: 'citations', label: 'citations', quoted: true, get: item => item.citations?.map(c => c.url).join('|') },
+];
+
+export const FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'csv',
+  [ExportFormat.JSONL]: 'jsonl',
+  [ExportFormat.ARROW]: 'arrow',
+  [ExportFormat.HF_JSON]: 'json',
+};
+
+export const FORMAT_LABELS: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'CSV',
+  [ExportFormat.JSONL]: 'JSON Lines',
+  [ExportFormat.ARROW]: 'Arrow IPC',
+  [ExportFormat.HF_JSON]: 'Hugging Face datasets JSON',
+};
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  ISO: 'YYYY-MM-DD',
+  US: 'MM/DD/YYYY',
+  EU: 'DD.MM.YYYY',
+  COMPACT: 'YYYYMMDD',
+  UNIX: 'Unix timestamp (s)',
+};
+
+// The original FinBERT layout comes first; labels, annotations and the run/window links follow it,
+// so labeled data and its provenance survive a default export. Every other field is opt-in
+const DEFAULT_ENABLED = ['time', 'id', 'text', 'source', 'annotation', 'sentiment', 'pillar', 'labeledBy', 'runId', 'chunkId'];
+
+export const defaultColumns = (): ExportColumn[] =>
+  EXPORT_FIELDS.map(f => ({ key: f.key, header: f.label, enabled: DEFAULT_ENABLED.includes(f.key) }));
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: ExportFormat.CSV,
+  columns: defaultColumns(),
+  dateFormat: 'ISO',
+  fileNamePattern: 'sp500_esg_news_{date}',
+};
+
+// Saved options may predate newly added fields; append those (with their default) and drop unknown keys
+export const reconcileColumns = (columns: ExportColumn[]): ExportColumn[] => {
+  const known = columns.filter(c => EXPORT_FIELDS.some(f => f.key === c.key));
+  const missing = EXPORT_FIELDS
+    .filter(f => !known.some(c => c.key === f.key))
+    .map(f => ({ key: f.key, header: f.label, enabled: DEFAULT_ENABLED.includes(f.key) }));
+  return [...known, ...missing];
+};
+
+export const formatDate = (value: string, format: DateFormat): string => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return value;
+  const [, y, m, d] = match;
+
+  switch (format) {
+    case 'US': return `${m}/${d}/${y}`;
+    case 'EU': return `${d}.${m}.${y}`;
+    case 'COMPACT': return `${y}${m}${d}`;
+    case 'UNIX': return String(Date.UTC(+y, +m - 1, +d) / 1000);
+    default: return `${y}-${m}-${d}`;
+  }
+};
+
+export const buildFileName = (
+  pattern: string,
+  context: { dataset: string; count: number; format: ExportFormat }
+): string => {
+  const base = (pattern || DEFAULT_EXPORT_OPTIONS.fileNamePattern)
+    .replace(/\{dataset\}/g, context.dataset)
+    .replace(/\{date\}/g, new Date().toISOString().slice(0, 10))
+    .replace(/\{count\}/g, String(context.count))
+    .replace(/\{format\}/g, context.format.toLowerCase())
+    .replace(/[\\/:*?"<>|]+/g, '_')
+    .replace(/\s+/g, '_');
+  return `${base}.${FORMAT_EXTENSIONS[context.format]}`;
+};
+
+const escapeCsv = (value: string, quoted?: boolean) => {
+  if (quoted || /[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+// Project items onto the enabled columns, in column order, applying the date format
+export const toRows = (items: NewsItem[], options: ExportOptions): Record<string, string>[] => {
+  const columns = options.columns.filter(c => c.enabled);
+  return items.map(item => {
+    const row: Record<string, string> = {};
+    columns.forEach(col => {
+      const field = EXPORT_FIELDS.find(f => f.key === col.key);
+      if (!field) return;
+      const value = field.get(item) ?? '';
+      row[col.header] = col.key === 'time' ? formatDate(value, options.dateFormat) : value;
+    });
+    return row;
+  });
+};
+
+export const serializeCsv = (items: NewsItem[], options: ExportOptions): string => {
+  const columns = options.columns.filter(c => c.enabled);
+  const fields = columns.map(c => EXPORT_FIELDS.find(f => f.key === c.key));
+  const header = columns.map(c => escapeCsv(c.header)).join(',');
+  const rows = toRows(items, options).map(row =>
+    columns.map((c, i) => escapeCsv(row[c.header], fields[i]?.quoted)).join(',')
+  );
+  return [header, ...rows].join("\n");
+};
+
+export const serializeJsonl = (items: NewsItem[], options: ExportOptions): string =>
+  toRows(items, options).map(row => JSON.stringify(row)).join("\n");
+
+// Loadable with: load_dataset("json", data_files="<file>.json", field="data")
+export const serializeHfJson = (items: NewsItem[], options: ExportOptions): string => {
+  const features: Record<string, { dtype: string; _type: string }> = {};
+  options.columns.filter(c => c.enabled).forEach(c => {
+    features[c.header] = { dtype: 'string', _type: 'Value' };
+  });
+  return JSON.stringify({ version: '1.0.0', features, data: toRows(items, options) });
+};
+
+export const serializeArrow = async (items: NewsItem[], options: ExportOptions): Promise<Uint8Array> => {
+  // Loaded lazily: Arrow is only needed for this format
+  const { tableFromArrays, tableToIPC } = await import('apache-arrow');
+  const rows = toRows(items, options);
+  const columns: Record<string, string[]> = {};
+  options.columns.filter(c => c.enabled).forEach(c => {
+    columns[c.header] = rows.map(row => row[c.header]);
+  });
+  return tableToIPC(tableFromArrays(columns), 'file');
+};
+
+export const exportDataset = async (
+  items: NewsItem[],
+  options: ExportOptions,
+  datasetName: string
+): Promise<{ blob: Blob; fileName: string }> => {
+  const fileName = buildFileName(options.fileNamePattern, {
+    dataset: datasetName,
+    count: items.length,
+    format: options.format
+  });
+
+  switch (options.format) {
+    case ExportFormat.JSONL:
+      return { fileName, blob: new Blob([serializeJsonl(items, options)], { type: 'application/x-ndjson;charset=utf-8;' }) };
+    case ExportFormat.HF_JSON:
+      return { fileName, blob: new Blob([serializeHfJson(items, options)], { type: 'application/json;charset=utf-8;' }) };
+    case ExportFormat.ARROW:
+      return { fileName, blob: new Blob([await serializeArrow(items, options)], { type: 'application/vnd.apache.arrow.file' }) };
+    default:
+      return { fileName, blob: new Blob([serializeCsv(items, options)], { type: 'text/csv;charset=utf-8;' }) };
+  }
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.setAttribute("href", url);
+  link.setAttribute("download", fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -1,23 +1,62 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { NewsItem, GenerationMode } from "../types";
+import { NewsItem, GenerationMode, Classification, EsgPillar, FetchResult, PromptPreset, ChunkMix } from "../types";
+import { buildText, DEFAULT_TEXT_TEMPLATE } from "./textTemplate";
+import { TOPIC_TAXONOMY } from "./classifier";
+import { getScheduler } from "./rateLimiter";
+import { sha256 } from "./manifestService";
+import { verifyItems } from "./groundingService";
+import { defaultPreset, renderPrompt } from "./promptPresets";
+import { requestCost, usageFromResponse } from "./costService";
+import { describeMix, parseGeneratedLabels, PILLAR_VALUES, SENTIMENT_VALUES } from "./syntheticMix";
 
 // Helper to generate a unique ID
 const generateId = () => Math.random().toString(36).substr(2, 9);
-const MAX_RETRIES = 3;
+
+const hostnameOf = (url?: string) => {
+  try {
+    return url ? new URL(url).hostname.replace('www.', '') : null;
+  } catch {
+    return null;
+  }
+};
+
+// The part of the SDK client this module uses; tests swap in a fixture-driven mock
+export type GenAIClient = Pick<GoogleGenAI, 'models'>;
+export type ClientFactory = (apiKey: string) => GenAIClient;
+
+const defaultClientFactory: ClientFactory = (apiKey) => new GoogleGenAI({ apiKey });
+let clientFactory = defaultClientFactory;
+
+// Pass nothing to restore the real client
+export const setClientFactory = (factory?: ClientFactory) => {
+  clientFactory = factory || defaultClientFactory;
+};
+
+const getClient = () => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    throw new Error("API Key is missing. Please select a paid API key.");
+  }
+  return clientFactory(apiKey);
+};
+
+// Rough token estimate used against the tokens-per-minute budget (~4 characters per token)
+const estimateTokens = (prompt: string, expectedOutputTokens: number) =>
+  Math.ceil(prompt.length / 4) + expectedOutputTokens;
 
 export const fetchESGNews = async (
   ticker: string,
   startDate: string,
   endDate: string,
   mode: GenerationMode,
-  count: number
-): Promise<NewsItem[]> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key is missing. Please select a paid API key.");
+  count: number,
+  preset: PromptPreset | undefined = defaultPreset(mode),
+  mix?: ChunkMix
+): Promise<FetchResult> => {
+  if (!preset) {
+    throw new Error(`No prompt preset for mode "${mode}"`);
   }
-
-  const ai = new GoogleGenAI({ apiKey });
+  const ai = getClient();
 
   // Schema for structured output
   const newsSchema: Schema = {
@@ -34,104 +73,155 @@ export const fetchESGNews = async (
       required: ["date", "headline", "summary"]
     }
   };
+  // Synthetic target mixes: the generator labels each item so the run can be tallied
+  if (mix) {
+    Object.assign(newsSchema.items.properties, {
+      sentiment: { type: Type.STRING, enum: [...SENTIMENT_VALUES], description: "Sentiment of the item for an ESG investor" },
+      pillar: { type: Type.STRING, enum: [...PILLAR_VALUES], description: "Main ESG pillar of the item" },
+      event: { type: Type.INTEGER, description: "Number of the required event the item reports on, if any" },
+    });
+  }
 
-  let model = 'gemini-2.5-flash';
-  let prompt = '';
-  let tools: any[] | undefined = undefined;
-
-  // Prepare Prompt and Config
-  if (mode === GenerationMode.LIVE_SEARCH) {
-    model = 'gemini-3-pro-preview'; // Use Pro for better reasoning and tool use
-    tools = [{ googleSearch: {} }];
-    
-    // Updated prompt to "mimic a crawler" behavior
-    prompt = `
-      You are a specialized Web Crawler and Data Scraper.
-      
-      Task: Perform a deep Google Search to find exactly ${count} distinct news articles for "${ticker}" related to ESG (Environmental, Social, Governance).
-      
-      Constraints:
-      1. Timeframe: Articles MUST be published between ${startDate} and ${endDate}.
-      2. Quantity: I need exactly ${count} items.
-      3. Quality: Prioritize reputable financial sources (Reuters, Bloomberg, WSJ, CNBC, S&P Global).
-      
-      Output Requirements:
-      - Extract the real Headline.
-      - Extract a detailed text snippet (summary) for analysis.
-      - Extract the Publisher Name.
-      - Extract the Source URL.
-      
-      Return the data strictly as a JSON list matching the schema.
-    `;
-  } else {
-    model = 'gemini-2.5-flash';
-    prompt = `
-      Generate exactly ${count} REALISTIC financial news snippets for "${ticker}" related to ESG.
-      Distribution: The dates MUST be strictly within ${startDate} to ${endDate}.
-      Density: Spread the ${count} items somewhat evenly across this time period.
-      
-      Content Style: Financial news feed (Bloomberg/Reuters).
-      Topics: ESG Index rebalancing, carbon goals, diversity reports, governance scandals.
-      
-      Output strictly valid JSON.
+  const { model, template, temperature, seed } = preset;
+  const tools = mode === GenerationMode.LIVE_SEARCH ? [{ googleSearch: {} }] : undefined;
+  const prompt = renderPrompt(template, { ticker, startDate, endDate, count, topics: preset.topics }) + (mix ? describeMix(mix) : '');
+  const [promptHash, templateHash] = await Promise.all([sha256(prompt), sha256(template)]);
+
+  // Execute through the shared rate limiter, which also retries quota and transient errors
+  return getScheduler().schedule(async () => {
+    const response = await ai.models.generateContent({
+      model: model,
+      contents: prompt,
+      config: {
+        tools: tools,
+        responseMimeType: "application/json",
+        responseSchema: newsSchema,
+        temperature,
+        seed,
+      }
+    });
+
+    // Provenance for the run manifest: exact model version and the pages grounding returned.
+    // Sources keep their chunk positions, which grounding supports refer to.
+    const grounding = response.candidates?.[0]?.groundingMetadata;
+    const sources = (grounding?.groundingChunks || []).map(c => ({ url: c.web?.uri || '', title: c.web?.title }));
+    const supports = (grounding?.groundingSupports || []).map(s => ({ text: s.segment?.text || '', sourceIndices: s.groundingChunkIndices || [] }));
+    const usage = usageFromResponse(response.usageMetadata, grounding?.webSearchQueries);
+    const request: FetchResult['request'] = {
+      model,
+      modelVersion: response.modelVersion,
+      temperature,
+      seed,
+      responseId: response.responseId,
+      promptHash,
+      templateHash,
+      searchQueries: grounding?.webSearchQueries,
+      groundingSources: sources.filter(s => s.url),
+      usage,
+      cost: requestCost(model, usage),
+    };
+
+    const rawData = JSON.parse(response.text || "[]");
+    if (!Array.isArray(rawData)) return { items: [], request, promptTemplate: template };
+
+    // Items are checked by the validation stage later; mapping must not fail the whole chunk
+    const items = rawData.filter((item: any) => item && typeof item === 'object').map((item: any) => {
+      let sourceDisplay = "Synthetic";
+      if (mode === GenerationMode.LIVE_SEARCH) {
+           // Prioritize the structured sourceName, fall back to URL domain, then Google
+           sourceDisplay = item.sourceName 
+             ? `${item.sourceName}` 
+             : (hostnameOf(item.url) || "Google Crawler Result");
+      } else {
+           sourceDisplay = `Synthetic Generation (${model})`;
+      }
+
+      return {
+        id: mode === GenerationMode.LIVE_SEARCH ? `WEB-${generateId()}` : `SYN-${generateId()}`,
+        time: item.date,
+        text: buildText(item.headline, item.summary, DEFAULT_TEXT_TEMPLATE),
+        source: sourceDisplay,
+        ticker: ticker,
+        headline: item.headline,
+        summary: item.summary,
+        url: item.url || undefined,
+        publisher: item.sourceName || undefined,
+        provider: mode,
+        model: model,
+        ...(mix && { generated: parseGeneratedLabels(item, mix) })
+      };
+    });
+    // The model's url/sourceName are claims; only the search grounding can back them up
+    return {
+      items: mode === GenerationMode.LIVE_SEARCH ? verifyItems(items, sources, supports) : items,
+      request,
+      promptTemplate: template
+    };
+  }, estimateTokens(prompt, count * 150));
+};
+
+const CLASSIFY_BATCH_SIZE = 25;
+
+// LLM pass that tags items with ESG pillars and topics from the local taxonomy
+export const classifyESGItems = async (
+  items: NewsItem[],
+  model: string = 'gemini-2.5-flash'
+): Promise<Classification[]> => {
+  const ai = getClient();
+  const topicIds = TOPIC_TAXONOMY.map(t => t.id);
+
+  const classificationSchema: Schema = {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        id: { type: Type.STRING, description: "The item id, copied verbatim" },
+        pillars: { type: Type.ARRAY, items: { type: Type.STRING, enum: ['E', 'S', 'G'] }, description: "ESG pillars, strongest first" },
+        topics: { type: Type.ARRAY, items: { type: Type.STRING, enum: topicIds }, description: "Matching topic ids" }
+      },
+      required: ["id", "pillars", "topics"]
+    }
+  };
+
+  const taxonomy = TOPIC_TAXONOMY
+    .map(t => `- ${t.id}: ${t.label}${t.pillar ? ` (${t.pillar})` : ''}`)
+    .join("\n");
+
+  const results: Classification[] = [];
+  for (let i = 0; i < items.length; i += CLASSIFY_BATCH_SIZE) {
+    const batch = items.slice(i, i + CLASSIFY_BATCH_SIZE);
+    const prompt = `
+      Classify each financial news item by ESG pillar (E = Environmental, S = Social, G = Governance)
+      and by topic. Use only these topic ids:
+${taxonomy}
+
+      Items:
+${batch.map(item => JSON.stringify({ id: item.id, text: item.text })).join("\n")}
+
+      Return one entry per item, strictly as JSON matching the schema.
     `;
-  }
 
-  // Execute with Retry
-  let attempt = 0;
-  while (attempt < MAX_RETRIES) {
-    try {
+    const batchResults = await getScheduler().schedule(async () => {
       const response = await ai.models.generateContent({
-        model: model,
+        model,
         contents: prompt,
         config: {
-          tools: tools,
           responseMimeType: "application/json",
-          responseSchema: newsSchema,
-        }
-      });
-
-      const rawData = JSON.parse(response.text || "[]");
-
-      return rawData.map((item: any) => {
-        let sourceDisplay = "Synthetic";
-        if (mode === GenerationMode.LIVE_SEARCH) {
-             // Prioritize the structured sourceName, fall back to URL domain, then Google
-             sourceDisplay = item.sourceName 
-               ? `${item.sourceName}` 
-               : (item.url ? new URL(item.url).hostname.replace('www.', '') : "Google Crawler Result");
-        } else {
-             sourceDisplay = "Synthetic Generation (Gemini 2.5)";
+          responseSchema: classificationSchema,
         }
-
-        return {
-          id: mode === GenerationMode.LIVE_SEARCH ? `WEB-${generateId()}` : `SYN-${generateId()}`,
-          time: item.date,
-          text: `${item.headline}. ${item.summary}`,
-          source: sourceDisplay,
-          ticker: ticker
-        };
       });
+      return JSON.parse(response.text || "[]") as Classification[];
+    }, estimateTokens(prompt, batch.length * 40));
 
-    } catch (error: any) {
-      attempt++;
-      console.warn(`GenAI Request failed (Attempt ${attempt}/${MAX_RETRIES}):`, error);
-
-      // Stop immediately for API Key errors
-      if (error.message && error.message.includes("API Key")) {
-          throw error;
-      }
-      
-      // If we reached max retries, throw the error
-      if (attempt === MAX_RETRIES) {
-        throw error;
-      }
-
-      // Exponential backoff: 1s, 2s, 4s...
-      await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, attempt)));
-    }
+    // Keep only known ids and taxonomy values
+    const batchIds = new Set(batch.map(item => item.id));
+    batchResults
+      .filter(r => batchIds.has(r.id))
+      .forEach(r => results.push({
+        id: r.id,
+        pillars: (r.pillars || []).filter((p): p is EsgPillar => p === 'E' || p === 'S' || p === 'G'),
+        topics: (r.topics || []).filter(t => topicIds.includes(t)),
+      }));
   }
-
-  // Should technically be unreachable due to throws above, but for type safety:
-  throw new Error("Failed to fetch news after multiple attempts");
-};
\ No newline at end of file
+  return results;
+};
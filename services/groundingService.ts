@@ -0,0 +1,97 @@
+import { GroundingSource, NewsItem, VerificationStatus } from "../types";
+
+// Cross-checks live-search items against the Google Search grounding of the response that produced them
+
+// A span of the response text and the grounding sources (by index) that back it
+export interface GroundingSupport {
+  text: string;
+  sourceIndices: number[];
+}
+
+export const VERIFICATION_LABELS: Record<VerificationStatus, string> = {
+  verified: 'Verified',
+  unverified: 'Unverified',
+  suspected: 'Suspected hallucination',
+};
+
+// Supports shorter than this match too many headlines by accident
+const MIN_SUPPORT_LENGTH = 20;
+
+const hostOf = (url?: string) => {
+  try {
+    return url ? new URL(url).hostname.replace(/^www\./, '').toLowerCase() : null;
+  } catch {
+    return null;
+  }
+};
+
+// Grounding URLs are usually vertexaisearch redirects; the title then holds the publisher's domain
+export const sourceDomain = (source: GroundingSource) => {
+  const host = hostOf(source.url);
+  if (host && !host.endsWith('vertexaisearch.cloud.google.com')) return host;
+  const title = (source.title || '').trim().toLowerCase().replace(/^www\./, '');
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(title) ? title : null;
+};
+
+const normalizeUrl = (url: string) =>
+  url.trim().toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/[?#].*$/, '').replace(/\/+$/, '');
+
+const sameSite = (a: string, b: string) => a === b || a.endsWith(`.${b}`) || b.endsWith(`.${a}`);
+
+const squash = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// The site an item claims to come from: its URL, else a publisher name like "Reuters" matched against a domain
+const claimsSite = (item: NewsItem, domain: string) => {
+  const host = hostOf(item.url);
+  if (host) return sameSite(host, domain);
+  const publisher = squash(item.publisher || '');
+  return publisher.length >= 3 && squash(domain).includes(publisher);
+};
+
+// Sources whose supported text quotes the item's headline (or vice versa)
+const supportingSources = (item: NewsItem, sources: GroundingSource[], supports: GroundingSupport[]) => {
+  const headline = squash(item.headline || '');
+  if (!headline) return [];
+  const indices = new Set<number>();
+  supports.forEach(support => {
+    const text = squash(support.text);
+    if (text.length < MIN_SUPPORT_LENGTH) return;
+    if (text.includes(headline) || headline.includes(text)) support.sourceIndices.forEach(i => indices.add(i));
+  });
+  return Array.from(indices).map(i => sources[i]).filter((s): s is GroundingSource => !!s?.url);
+};
+
+// verified:   the item's URL is a grounding source, or a grounding support for its headline points at its site
+// unverified: the search visited the item's site, but nothing ties this article to it
+// suspected:  the claimed site never came up in the search (or there was no search at all)
+export const verifyItem = (item: NewsItem, sources: GroundingSource[], supports: GroundingSupport[]): NewsItem => {
+  const usable = sources.filter(s => s.url);
+  const mark = (verification: VerificationStatus, citations: GroundingSource[]): NewsItem =>
+    ({ ...item, verification, citations: citations.length ? citations : undefined });
+
+  if (usable.length === 0) return mark('suspected', []);
+
+  if (item.url) {
+    const url = normalizeUrl(item.url);
+    const exact = usable.filter(s => normalizeUrl(s.url) === url);
+    if (exact.length) return mark('verified', exact);
+  }
+
+  const supporting = supportingSources(item, sources, supports);
+  const onSite = supporting.filter(s => {
+    const domain = sourceDomain(s);
+    return domain && claimsSite(item, domain);
+  });
+  if (onSite.length) return mark('verified', onSite);
+
+  const sameDomain = usable.filter(s => {
+    const domain = sourceDomain(s);
+    return domain && claimsSite(item, domain);
+  });
+  if (sameDomain.length || supporting.length) return mark('unverified', [...supporting, ...sameDomain.filter(s => !supporting.includes(s))]);
+
+  return mark('suspected', []);
+};
+
+export const verifyItems = (items: NewsItem[], sources: GroundingSource[], supports: GroundingSupport[]): NewsItem[] =>
+  items.map(item => verifyItem(item, sources, supports));
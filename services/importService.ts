@@ -0,0 +1,283 @@
+import { EsgPillar, NewsItem, RejectedRow, VerificationStatus } from "../types";
+import { EXPORT_FIELDS } from "./exportService";
+import { normalizePillar, normalizeSentiment } from "./labelingService";
+
+// Importer for our own CSV exports (quoted/escaped text) and generic JSONL
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+export type ImportFieldKey = keyof NewsItem | 'ignore';
+
+// Fields a column can be mapped onto
+export const IMPORT_FIELDS: { key: ImportFieldKey; label: string }[] = [
+  { key: 'time', label: 'Time' },
+  { key: 'id', label: 'Sample ID' },
+  { key: 'text', label: 'Text' },
+  { key: 'source', label: 'Source' },
+  { key: 'headline', label: 'Headline' },
+  { key: 'summary', label: 'Summary' },
+  { key: 'url', label: 'URL' },
+  { key: 'publisher', label: 'Publisher' },
+  { key: 'ticker', label: 'Ticker / Scope' },
+  { key: 'company', label: 'Company' },
+  { key: 'sector', label: 'GICS sector' },
+  { key: 'provider', label: 'Provider' },
+  { key: 'model', label: 'Model' },
+  { key: 'annotation', label: 'Annotation' },
+  { key: 'sentiment', label: 'Sentiment label' },
+  { key: 'pillar', label: 'ESG pillar label' },
+  { key: 'labeledBy', label: 'Labeled by' },
+  { key: 'pillars', label: 'ESG pillars (auto, | separated)' },
+  { key: 'topics', label: 'Topics (| separated)' },
+  { key: 'jobId', label: 'Job ID' },
+  { key: 'runId', label: 'Run ID (see the manifest)' },
+  { key: 'chunkId', label: 'Chunk ID' },
+  { key: 'verification', label: 'Verification' },
+  { key: 'citations', label: 'Citation URLs (| separated)' },
+  { key: 'ignore', label: '(ignore)' },
+];
+
+// Common header spellings from other tools, on top of our own export headers
+const HEADER_ALIASES: Record<string, ImportFieldKey> = {
+  date: 'time', published: 'time', pubdate: 'time', timestamp: 'time', datetime: 'time',
+  sampleid: 'id', sample_id: 'id',
+  content: 'text', sentence: 'text', body: 'text',
+  title: 'headline',
+  description: 'summary', snippet: 'summary',
+  link: 'url', sourceurl: 'url',
+  sourcename: 'publisher',
+  symbol: 'ticker', scope: 'ticker',
+  mode: 'provider',
+  gics_sector: 'sector', gicssector: 'sector', name: 'company',
+  note: 'annotation', notes: 'annotation', comment: 'annotation',
+  label: 'sentiment', esg: 'pillar', annotator: 'labeledBy', labeled_by: 'labeledBy',
+};
+
+const headerKey = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, '');
+
+export const guessMapping = (headers: string[]): Record<string, ImportFieldKey> => {
+  const mapping: Record<string, ImportFieldKey> = {};
+  headers.forEach(header => {
+    const key = headerKey(header);
+    const field = EXPORT_FIELDS.find(f => headerKey(f.label) === key || headerKey(f.key) === key);
+    mapping[header] = (field?.key as ImportFieldKey) || HEADER_ALIASES[key] || 'ignore';
+  });
+  return mapping;
+};
+
+// RFC 4180 parser: quoted fields may contain commas, newlines and doubled quotes.
+// Returns each record with the line it started on.
+export const parseCsv = (content: string): { line: number; fields: string[] }[] => {
+  const text = content.replace(/^\uFEFF/, '');
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      fields.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      fields.push(field);
+      if (fields.length > 1 || fields[0] !== '') records.push({ line: recordLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+  }
+  return records;
+};
+
+// Accepts the formats our exporter can write; returns YYYY-MM-DD or null when invalid
+export const normalizeDate = (value: string): string | null => {
+  const v = value.trim();
+  let y: number, m: number, d: number;
+  let match: RegExpMatchArray | null;
+
+  if ((match = v.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/))) {
+    [y, m, d] = [+match[1], +match[2], +match[3]];
+  } else if ((match = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/))) {
+    [m, d, y] = [+match[1], +match[2], +match[3]];
+  } else if ((match = v.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/))) {
+    [d, m, y] = [+match[1], +match[2], +match[3]];
+  } else if ((match = v.match(/^(\d{4})(\d{2})(\d{2})$/))) {
+    [y, m, d] = [+match[1], +match[2], +match[3]];
+  } else if (/^\d{9,10}$/.test(v)) {
+    return new Date(+v * 1000).toISOString().slice(0, 10);
+  } else {
+    return null;
+  }
+
+  // Round-trip through Date to reject impossible days such as 2021-02-30
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+export interface ParsedImport {
+  headers: string[];
+  records: { row: number; values: Record<string, string>; raw: string }[];
+  rejected: RejectedRow[];
+}
+
+const parseCsvFile = (content: string): ParsedImport => {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return { headers: [], records: [], rejected: [] };
+
+  const headers = header.fields.map(h => h.trim());
+  const records: ParsedImport['records'] = [];
+  const rejected: RejectedRow[] = [];
+
+  rows.forEach(({ line, fields }) => {
+    const raw = fields.join(',');
+    if (fields.length !== headers.length) {
+      rejected.push({ row: line, reason: `Expected ${headers.length} columns, found ${fields.length}`, raw });
+      return;
+    }
+    const values: Record<string, string> = {};
+    headers.forEach((h, i) => { values[h] = fields[i]; });
+    records.push({ row: line, values, raw });
+  });
+
+  return { headers, records, rejected };
+};
+
+const parseJsonlFile = (content: string): ParsedImport => {
+  const headers: string[] = [];
+  const records: ParsedImport['records'] = [];
+  const rejected: RejectedRow[] = [];
+
+  content.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      const obj = JSON.parse(line);
+      if (!obj || typeof obj !== 'object' || Array.isArray(obj)) {
+        rejected.push({ row: i + 1, reason: 'Line is not a JSON object', raw: line });
+        return;
+      }
+      const values: Record<string, string> = {};
+      Object.entries(obj).forEach(([key, value]) => {
+        if (!headers.includes(key)) headers.push(key);
+        values[key] = value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      });
+      records.push({ row: i + 1, values, raw: line });
+    } catch {
+      rejected.push({ row: i + 1, reason: 'Malformed JSON', raw: line });
+    }
+  });
+
+  return { headers, records, rejected };
+};
+
+export const parseImportFile = (content: string, fileName: string): ParsedImport =>
+  /\.jsonl?$/i.test(fileName) ? parseJsonlFile(content) : parseCsvFile(content);
+
+const splitList = (value: string) => value.split(/[|;]/).map(v => v.trim()).filter(Boolean);
+
+const VERIFICATION_VALUES: VerificationStatus[] = ['verified', 'unverified', 'suspected'];
+
+const normalizeVerification = (value?: string) =>
+  VERIFICATION_VALUES.find(v => v === value?.toLowerCase());
+
+// Map parsed records onto NewsItems, rejecting rows with invalid dates or no text
+export const mapRecords = (
+  parsed: ParsedImport,
+  mapping: Record<string, ImportFieldKey>,
+  defaultTicker: string
+): { items: NewsItem[]; rejected: RejectedRow[] } => {
+  const items: NewsItem[] = [];
+  const rejected: RejectedRow[] = [...parsed.rejected];
+  const seenIds = new Set<string>();
+
+  parsed.records.forEach(({ row, values, raw }) => {
+    const fields: Partial<Record<ImportFieldKey, string>> = {};
+    Object.entries(mapping).forEach(([header, key]) => {
+      const value = values[header];
+      if (key !== 'ignore' && value !== undefined && value.trim() !== '') {
+        fields[key] = value.trim();
+      }
+    });
+
+    if (!fields.time) {
+      rejected.push({ row, reason: 'Missing date', raw });
+      return;
+    }
+    const time = normalizeDate(fields.time);
+    if (!time) {
+      rejected.push({ row, reason: `Invalid date "${fields.time}"`, raw });
+      return;
+    }
+
+    const text = fields.text || [fields.headline, fields.summary].filter(Boolean).join('. ');
+    if (!text) {
+      rejected.push({ row, reason: 'Missing text', raw });
+      return;
+    }
+
+    // Keep the original Sample ID unless it repeats within the file
+    let id = fields.id;
+    if (!id || seenIds.has(id)) id = `IMP-${generateId()}`;
+    seenIds.add(id);
+
+    items.push({
+      id,
+      time,
+      text,
+      source: fields.source,
+      ticker: fields.ticker || defaultTicker,
+      company: fields.company,
+      sector: fields.sector,
+      headline: fields.headline,
+      summary: fields.summary,
+      url: fields.url,
+      publisher: fields.publisher,
+      provider: fields.provider,
+      model: fields.model,
+      annotation: fields.annotation,
+      sentiment: normalizeSentiment(fields.sentiment),
+      pillar: normalizePillar(fields.pillar),
+      labeledBy: fields.labeledBy,
+      pillars: fields.pillars ? splitList(fields.pillars).map(normalizePillar).filter((p): p is EsgPillar => !!p) : undefined,
+      topics: fields.topics ? splitList(fields.topics) : undefined,
+      // Provenance columns keep imported exports linked to their manifest
+      jobId: fields.jobId,
+      runId: fields.runId,
+      chunkId: fields.chunkId,
+      verification: normalizeVerification(fields.verification),
+      // URLs may contain ";", so citations split on "|" only
+      citations: fields.citations ? fields.citations.split('|').map(url => url.trim()).filter(Boolean).map(url => ({ url })) : undefined,
+    });
+  });
+
+  return { items, rejected: rejected.sort((a, b) => a.row - b.row) };
+};
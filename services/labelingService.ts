@@ -0,0 +1,167 @@
+import { EsgPillar, LabelSet, NewsItem, RejectedRow, SentimentLabel } from "../types";
+import type { ParsedImport } from "./importService";
+
+// Gold-label helpers: label normalization, label-set import and inter-annotator agreement
+export const SENTIMENTS: SentimentLabel[] = ['positive', 'neutral', 'negative'];
+export const PILLARS: EsgPillar[] = ['E', 'S', 'G'];
+
+export const PILLAR_LABELS: Record<EsgPillar, string> = {
+  E: 'Environmental',
+  S: 'Social',
+  G: 'Governance',
+};
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+export const normalizeSentiment = (value?: string): SentimentLabel | undefined => {
+  const v = (value || '').trim().toLowerCase();
+  if (['positive', 'pos', '+', '+1', '1'].includes(v)) return 'positive';
+  if (['neutral', 'neu', '0'].includes(v)) return 'neutral';
+  if (['negative', 'neg', '-', '-1'].includes(v)) return 'negative';
+  return undefined;
+};
+
+export const normalizePillar = (value?: string): EsgPillar | undefined => {
+  const v = (value || '').trim().toLowerCase();
+  if (['e', 'environmental', 'environment'].includes(v)) return 'E';
+  if (['s', 'social'].includes(v)) return 'S';
+  if (['g', 'governance'].includes(v)) return 'G';
+  return undefined;
+};
+
+// The labels already on the dataset's items, as a label set for the local annotator
+export const labelSetFromItems = (items: NewsItem[], datasetId: string, annotator: string): LabelSet => {
+  const labels: LabelSet['labels'] = {};
+  items.forEach(item => {
+    if (item.sentiment || item.pillar) labels[item.id] = { sentiment: item.sentiment, pillar: item.pillar };
+  });
+  return { id: 'LOCAL', datasetId, annotator, labels, importedAt: new Date().toISOString() };
+};
+
+const ID_HEADERS = ['sample id', 'sampleid', 'sample_id', 'id'];
+const SENTIMENT_HEADERS = ['sentiment', 'label', 'sentiment_label'];
+const PILLAR_HEADERS = ['pillar', 'esg', 'esg_pillar'];
+
+const findHeader = (headers: string[], candidates: string[]) =>
+  headers.find(h => candidates.includes(h.trim().toLowerCase()));
+
+// Read another annotator's export (parsed CSV/JSONL with a Sample ID and sentiment and/or pillar column)
+export const parseLabelSet = (
+  parsed: ParsedImport,
+  annotator: string,
+  datasetId: string
+): { labelSet: LabelSet; rejected: RejectedRow[] } => {
+  const idHeader = findHeader(parsed.headers, ID_HEADERS);
+  const sentimentHeader = findHeader(parsed.headers, SENTIMENT_HEADERS);
+  const pillarHeader = findHeader(parsed.headers, PILLAR_HEADERS);
+
+  if (!idHeader || (!sentimentHeader && !pillarHeader)) {
+    throw new Error("Label file needs a Sample ID column and a sentiment and/or pillar column.");
+  }
+
+  const labels: LabelSet['labels'] = {};
+  const rejected: RejectedRow[] = [...parsed.rejected];
+  parsed.records.forEach(({ row, values, raw }) => {
+    const id = values[idHeader]?.trim();
+    const sentiment = sentimentHeader ? normalizeSentiment(values[sentimentHeader]) : undefined;
+    const pillar = pillarHeader ? normalizePillar(values[pillarHeader]) : undefined;
+    if (!id) {
+      rejected.push({ row, reason: 'Missing Sample ID', raw });
+    } else if (!sentiment && !pillar) {
+      rejected.push({ row, reason: 'No recognizable label', raw });
+    } else {
+      labels[id] = { sentiment, pillar };
+    }
+  });
+
+  return {
+    labelSet: { id: `LS-${generateId()}`, datasetId, annotator, labels, importedAt: new Date().toISOString() },
+    rejected
+  };
+};
+
+export type LabelField = 'sentiment' | 'pillar';
+
+export interface PairAgreement {
+  a: string;
+  b: string;
+  n: number;          // Items both annotators labeled
+  agreement: number;  // Observed agreement (0-1)
+  kappa: number;      // Cohen's kappa
+}
+
+const labelsOf = (set: LabelSet, field: LabelField) => {
+  const map = new Map<string, string>();
+  Object.entries(set.labels).forEach(([id, l]) => {
+    if (l[field]) map.set(id, l[field]!);
+  });
+  return map;
+};
+
+export const cohenKappa = (a: Map<string, string>, b: Map<string, string>): Omit<PairAgreement, 'a' | 'b'> => {
+  const ids = Array.from(a.keys()).filter(id => b.has(id));
+  const n = ids.length;
+  if (n === 0) return { n: 0, agreement: NaN, kappa: NaN };
+
+  const countsA = new Map<string, number>();
+  const countsB = new Map<string, number>();
+  let agree = 0;
+  ids.forEach(id => {
+    const la = a.get(id)!;
+    const lb = b.get(id)!;
+    if (la === lb) agree++;
+    countsA.set(la, (countsA.get(la) || 0) + 1);
+    countsB.set(lb, (countsB.get(lb) || 0) + 1);
+  });
+
+  const po = agree / n;
+  let pe = 0;
+  countsA.forEach((count, label) => {
+    pe += (count / n) * ((countsB.get(label) || 0) / n);
+  });
+  const kappa = pe === 1 ? (po === 1 ? 1 : 0) : (po - pe) / (1 - pe);
+  return { n, agreement: po, kappa };
+};
+
+// Fleiss' kappa over the items labeled by every annotator
+export const fleissKappa = (maps: Map<string, string>[]): { n: number; kappa: number } => {
+  if (maps.length < 2) return { n: 0, kappa: NaN };
+  const ids = Array.from(maps[0].keys()).filter(id => maps.every(m => m.has(id)));
+  const n = ids.length;
+  const raters = maps.length;
+  if (n === 0) return { n: 0, kappa: NaN };
+
+  const categoryTotals = new Map<string, number>();
+  let sumP = 0;
+  ids.forEach(id => {
+    const counts = new Map<string, number>();
+    maps.forEach(m => {
+      const label = m.get(id)!;
+      counts.set(label, (counts.get(label) || 0) + 1);
+      categoryTotals.set(label, (categoryTotals.get(label) || 0) + 1);
+    });
+    let agreeingPairs = 0;
+    counts.forEach(c => { agreeingPairs += c * (c - 1); });
+    sumP += agreeingPairs / (raters * (raters - 1));
+  });
+
+  const pBar = sumP / n;
+  let pe = 0;
+  categoryTotals.forEach(total => {
+    const p = total / (n * raters);
+    pe += p * p;
+  });
+  const kappa = pe === 1 ? (pBar === 1 ? 1 : 0) : (pBar - pe) / (1 - pe);
+  return { n, kappa };
+};
+
+export const computeAgreement = (sets: LabelSet[], field: LabelField) => {
+  const maps = sets.map(set => labelsOf(set, field));
+  const pairs: PairAgreement[] = [];
+  for (let i = 0; i < sets.length; i++) {
+    for (let j = i + 1; j < sets.length; j++) {
+      pairs.push({ a: sets[i].annotator, b: sets[j].annotator, ...cohenKappa(maps[i], maps[j]) });
+    }
+  }
+  return { pairs, fleiss: fleissKappa(maps) };
+};
@@ -0,0 +1,87 @@
+import { CrawlRun, DatasetManifest, ExportFormat, NewsItem, RunManifest } from "../types";
+import { summarizeRun } from "./crawlPlan";
+import { mixReport } from "./syntheticMix";
+import { usageByModel } from "./costService";
+
+// Run manifests document how an exported dataset was produced, for papers and later audits
+export const MANIFEST_VERSION = 1;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// SHA-256 hex digest; undefined where Web Crypto is unavailable (e.g. plain-http deployments)
+export const sha256 = async (text: string): Promise<string | undefined> => {
+  try {
+    return toHex(await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+  } catch {
+    return undefined;
+  }
+};
+
+export const buildRunManifest = (run: CrawlRun, exported: number): RunManifest => {
+  const summary = summarizeRun(run);
+  const models = new Set<string>();
+  run.chunks.forEach(c => { if (c.request?.model) models.add(c.request.model); });
+
+  return {
+    id: run.id,
+    status: run.status,
+    createdAt: run.createdAt,
+    updatedAt: run.updatedAt,
+    config: run.config,
+    models: Array.from(models),
+    prompts: Object.entries(run.prompts || {}).map(([hash, text]) => ({ hash, text })),
+    counts: {
+      windows: summary.total - summary.topUps,
+      succeeded: summary.succeeded,
+      failed: summary.failed,
+      topUps: summary.topUps,
+      requested: summary.requested,
+      received: run.chunks.reduce((sum, c) => sum + (c.received || 0), 0),
+      kept: summary.items,
+      exported,
+    },
+    usage: usageByModel(run.chunks),
+    ...(run.config.synthetic && { mix: mixReport(run) }),
+    chunks: run.chunks,
+  };
+};
+
+// Manifest for one export: every run that contributed at least one of the exported items
+export const buildManifest = (
+  items: NewsItem[],
+  runs: CrawlRun[],
+  context: { dataset: string; file: string; format: ExportFormat }
+): DatasetManifest => {
+  const perRun = new Map<string, number>();
+  let untracked = 0;
+  items.forEach(item => {
+    if (item.runId) perRun.set(item.runId, (perRun.get(item.runId) || 0) + 1);
+    else untracked++;
+  });
+
+  return {
+    manifestVersion: MANIFEST_VERSION,
+    generatedAt: new Date().toISOString(),
+    dataset: context.dataset,
+    file: context.file,
+    format: context.format,
+    itemCount: items.length,
+    untrackedItems: untracked,
+    runs: runs
+      .filter(run => perRun.has(run.id))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(run => buildRunManifest(run, perRun.get(run.id) || 0)),
+  };
+};
+
+// Sidecar file shipped next to the exported data, e.g. "esg_news.csv" -> "esg_news.csv.manifest.json".
+// The data file's extension stays in the name so exports of the same items in several formats get one manifest each
+export const exportManifest = (
+  items: NewsItem[],
+  runs: CrawlRun[],
+  context: { dataset: string; file: string; format: ExportFormat }
+): { blob: Blob; fileName: string } => ({
+  fileName: `${context.file}.manifest.json`,
+  blob: new Blob([JSON.stringify(buildManifest(items, runs, context), null, 2)], { type: 'application/json;charset=utf-8;' }),
+});
@@ -0,0 +1,136 @@
+import { GenerationMode, PromptPreset } from "../types";
+import { getPreference, setPreference } from "./storageService";
+
+// Prompt templates and model settings for the LLM providers; runs reference a preset by id
+
+export const PROMPT_VARIABLES: { name: string; description: string }[] = [
+  { name: 'ticker', description: 'Scope or company being crawled' },
+  { name: 'startDate', description: 'Window start (YYYY-MM-DD)' },
+  { name: 'endDate', description: 'Window end (YYYY-MM-DD)' },
+  { name: 'count', description: 'Items requested for the window' },
+  { name: 'topics', description: "The preset's topic list" },
+];
+
+// Suggestions for the model picker; any model id the API accepts can be typed in
+export const MODEL_OPTIONS = ['gemini-3-pro-preview', 'gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'];
+
+const DEFAULT_TOPICS = 'ESG Index rebalancing, carbon goals, diversity reports, governance scandals';
+
+// Live search uses Pro for better reasoning and tool use
+const DEFAULT_MODELS: Record<string, string> = {
+  [GenerationMode.LIVE_SEARCH]: 'gemini-3-pro-preview',
+  [GenerationMode.SYNTHETIC]: 'gemini-2.5-flash',
+};
+
+const DEFAULT_TEMPLATES: Record<string, string> = {
+  // Written to "mimic a crawler" behavior
+  [GenerationMode.LIVE_SEARCH]: `
+      You are a specialized Web Crawler and Data Scraper.
+
+      Task: Perform a deep Google Search to find exactly {count} distinct news articles for "{ticker}" related to ESG (Environmental, Social, Governance).
+
+      Constraints:
+      1. Timeframe: Articles MUST be published between {startDate} and {endDate}.
+      2. Quantity: I need exactly {count} items.
+      3. Quality: Prioritize reputable financial sources (Reuters, Bloomberg, WSJ, CNBC, S&P Global).
+
+      Output Requirements:
+      - Extract the real Headline.
+      - Extract a detailed text snippet (summary) for analysis.
+      - Extract the Publisher Name.
+      - Extract the Source URL.
+
+      Return the data strictly as a JSON list matching the schema.
+    `,
+  [GenerationMode.SYNTHETIC]: `
+      Generate exactly {count} REALISTIC financial news snippets for "{ticker}" related to ESG.
+      Distribution: The dates MUST be strictly within {startDate} to {endDate}.
+      Density: Spread the {count} items somewhat evenly across this time period.
+
+      Content Style: Financial news feed (Bloomberg/Reuters).
+      Topics: {topics}.
+
+      Output strictly valid JSON.
+    `,
+};
+
+// Modes whose provider builds its request from a prompt preset
+export const supportsPresets = (mode: string) => mode in DEFAULT_TEMPLATES;
+
+const builtInPreset = (mode: string): PromptPreset => ({
+  id: `default-${mode}`,
+  name: 'Default',
+  mode,
+  model: DEFAULT_MODELS[mode],
+  template: DEFAULT_TEMPLATES[mode],
+  topics: DEFAULT_TOPICS,
+  builtIn: true,
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+const BUILT_IN_PRESETS = Object.keys(DEFAULT_TEMPLATES).map(builtInPreset);
+
+let customPresets: PromptPreset[] = getPreference<PromptPreset[]>('promptPresets', []);
+
+export const defaultPreset = (mode: string): PromptPreset | undefined =>
+  BUILT_IN_PRESETS.find(p => p.mode === mode);
+
+export const listPresets = (mode?: string): PromptPreset[] =>
+  [...BUILT_IN_PRESETS, ...customPresets].filter(p => !mode || p.mode === mode);
+
+export const getPreset = (id: string): PromptPreset | undefined =>
+  listPresets().find(p => p.id === id);
+
+// The preset a config runs with; an unknown id is an error rather than a silent fallback
+export const resolvePreset = (mode: string, presetId?: string): PromptPreset | undefined => {
+  if (!presetId) return defaultPreset(mode);
+  const preset = getPreset(presetId);
+  if (!preset) throw new Error(`Prompt preset "${presetId}" not found`);
+  return preset;
+};
+
+// Insert or update a custom preset; built-in ones are saved as a copy
+export const savePreset = (preset: PromptPreset): PromptPreset => {
+  const saved: PromptPreset = {
+    ...preset,
+    id: preset.builtIn ? `PRE-${Math.random().toString(36).substr(2, 9)}` : preset.id,
+    builtIn: undefined,
+    updatedAt: new Date().toISOString(),
+  };
+  customPresets = [...customPresets.filter(p => p.id !== saved.id), saved];
+  setPreference('promptPresets', customPresets);
+  return saved;
+};
+
+export const deletePreset = (id: string) => {
+  customPresets = customPresets.filter(p => p.id !== id);
+  setPreference('promptPresets', customPresets);
+};
+
+// Make presets from a config file available without persisting them (headless runs)
+export const addPresets = (presets: PromptPreset[]) => {
+  const ids = new Set(presets.map(p => p.id));
+  customPresets = [...customPresets.filter(p => !ids.has(p.id)), ...presets.map(p => ({ ...p, builtIn: undefined }))];
+};
+
+// Last preset picked per mode in the crawler panel
+let selected: Record<string, string> = getPreference<Record<string, string>>('selectedPresets', {});
+
+export const selectedPresetId = (mode: string) => {
+  const id = selected[mode];
+  return id && getPreset(id) ? id : defaultPreset(mode)?.id;
+};
+
+export const selectPreset = (mode: string, id: string) => {
+  selected = { ...selected, [mode]: id };
+  setPreference('selectedPresets', selected);
+};
+
+export const renderPrompt = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, key) => key in values ? String(values[key]) : match);
+
+// Placeholders that renderPrompt would leave in the text as-is
+export const unknownVariables = (template: string) => {
+  const known = new Set(PROMPT_VARIABLES.map(v => v.name));
+  return Array.from(new Set(Array.from(template.matchAll(/\{(\w+)\}/g), m => m[1]))).filter(name => !known.has(name));
+};
@@ -0,0 +1,185 @@
+import { GenerationMode, NewsItem, NewsProvider } from "../../types";
+import { buildText, DEFAULT_TEXT_TEMPLATE } from "../textTemplate";
+
+// Offline provider: serves items from locally loaded RSS/Atom feeds or JSONL archives
+export interface ArchiveEntry {
+  date: string;      // YYYY-MM-DD
+  headline: string;
+  summary: string;
+  url?: string;
+  sourceName?: string;
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+let archiveEntries: ArchiveEntry[] = [];
+let archiveFiles: string[] = [];
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&apos;': "'", '&#39;': "'", '&nbsp;': ' '
+};
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&[a-z#0-9]+;/gi, entity => ENTITIES[entity] ?? entity);
+
+// Feed text fields may hold CDATA and/or escaped HTML; reduce them to plain text
+const cleanText = (value: string | undefined) => {
+  if (!value) return '';
+  const unwrapped = value.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+  return decodeEntities(decodeEntities(unwrapped).replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const readTag = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+  return match ? match[1] : undefined;
+};
+
+const readAttr = (block: string, tag: string, attr: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}\\s[^>]*${attr}="([^"]*)"`, 'i'));
+  return match ? decodeEntities(match[1]) : undefined;
+};
+
+const toIsoDate = (value: string | undefined): string | null => {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+  const parsed = new Date(trimmed);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString().split('T')[0];
+};
+
+const hostnameOf = (url?: string) => {
+  if (!url) return undefined;
+  try {
+    return new URL(url).hostname.replace('www.', '');
+  } catch {
+    return undefined;
+  }
+};
+
+const parseRss = (xml: string): ArchiveEntry[] => {
+  const channelTitle = cleanText(readTag(xml.replace(/<item[\s>][\s\S]*/i, ''), 'title'));
+  const blocks = xml.match(/<item[\s>][\s\S]*?<\/item>/gi) || [];
+
+  return blocks.flatMap(block => {
+    const date = toIsoDate(readTag(block, 'pubDate') || readTag(block, 'dc:date'));
+    const headline = cleanText(readTag(block, 'title'));
+    if (!date || !headline) return [];
+    const url = cleanText(readTag(block, 'link')) || undefined;
+    return [{
+      date,
+      headline,
+      summary: cleanText(readTag(block, 'description') || readTag(block, 'content:encoded')),
+      url,
+      sourceName: cleanText(readTag(block, 'source')) || channelTitle || hostnameOf(url),
+    }];
+  });
+};
+
+const parseAtom = (xml: string): ArchiveEntry[] => {
+  const feedTitle = cleanText(readTag(xml.replace(/<entry[\s>][\s\S]*/i, ''), 'title'));
+  const blocks = xml.match(/<entry[\s>][\s\S]*?<\/entry>/gi) || [];
+
+  return blocks.flatMap(block => {
+    const date = toIsoDate(readTag(block, 'published') || readTag(block, 'updated'));
+    const headline = cleanText(readTag(block, 'title'));
+    if (!date || !headline) return [];
+    const url = readAttr(block, 'link', 'href');
+    return [{
+      date,
+      headline,
+      summary: cleanText(readTag(block, 'summary') || readTag(block, 'content')),
+      url,
+      sourceName: cleanText(readTag(readTag(block, 'author') || '', 'name')) || feedTitle || hostnameOf(url),
+    }];
+  });
+};
+
+// JSONL rows may use our own field names or common feed-export names
+const parseJsonl = (content: string): ArchiveEntry[] =>
+  content.split(/\r?\n/).flatMap(line => {
+    if (!line.trim()) return [];
+    try {
+      const row = JSON.parse(line);
+      const date = toIsoDate(row.date || row.time || row.published || row.pubDate);
+      const headline = cleanText(row.headline || row.title);
+      if (!date || !headline) return [];
+      const url = row.url || row.link;
+      return [{
+        date,
+        headline,
+        summary: cleanText(row.summary || row.description || row.text),
+        url,
+        sourceName: row.sourceName || row.source || row.publisher || hostnameOf(url),
+      }];
+    } catch {
+      console.warn("Skipping malformed JSONL line in archive");
+      return [];
+    }
+  });
+
+export const parseArchive = (content: string, fileName: string): ArchiveEntry[] => {
+  if (/\.jsonl?$/i.test(fileName) || content.trimStart().startsWith('{')) {
+    return parseJsonl(content);
+  }
+  if (/<feed[\s>]/i.test(content)) {
+    return parseAtom(content);
+  }
+  return parseRss(content);
+};
+
+// Load archive files into the provider; returns the total number of entries available
+export const loadArchiveFiles = async (files: File[]): Promise<number> => {
+  for (const file of files) {
+    const entries = parseArchive(await file.text(), file.name);
+    archiveEntries = archiveEntries.concat(entries);
+    archiveFiles.push(`${file.name} (${entries.length})`);
+  }
+  archiveEntries.sort((a, b) => a.date.localeCompare(b.date));
+  return archiveEntries.length;
+};
+
+export const clearArchive = () => {
+  archiveEntries = [];
+  archiveFiles = [];
+};
+
+export const getLoadedArchiveFiles = () => [...archiveFiles];
+
+export const archiveProvider: NewsProvider = {
+  id: GenerationMode.ARCHIVE,
+  label: 'Local Archive',
+  description: 'Principle: Reads licensed RSS/Atom feeds or JSONL archives loaded from disk. Works fully offline.',
+  fetch: async (window, scope, count) => {
+    if (archiveEntries.length === 0) {
+      throw new Error("No archive files loaded. Load RSS/Atom or JSONL files first.");
+    }
+
+    const inWindow = archiveEntries.filter(e => e.date >= window.start && e.date < window.end);
+
+    // Spread the picks evenly across the window instead of taking the first N
+    const step = Math.max(1, inWindow.length / count);
+    const picked: ArchiveEntry[] = [];
+    for (let i = 0; i < inWindow.length && picked.length < count; i += step) {
+      picked.push(inWindow[Math.floor(i)]);
+    }
+
+    const items = picked.map((entry): NewsItem => ({
+      id: `ARC-${generateId()}`,
+      time: entry.date,
+      text: buildText(entry.headline, entry.summary, DEFAULT_TEXT_TEMPLATE),
+      source: entry.sourceName || hostnameOf(entry.url) || 'Local Archive',
+      ticker: scope,
+      headline: entry.headline,
+      summary: entry.summary || undefined,
+      url: entry.url,
+      publisher: entry.sourceName,
+      provider: GenerationMode.ARCHIVE,
+    }));
+    return { items };
+  },
+};
@@ -0,0 +1,23 @@
+import { GenerationMode, NewsProvider } from "../../types";
+import { classifyESGItems, fetchESGNews } from "../geminiService";
+import { lastDay } from "../crawlPlan";
+
+// Gemini + Google Search grounding: crawls the web for real historical articles
+export const geminiLiveSearchProvider: NewsProvider = {
+  id: GenerationMode.LIVE_SEARCH,
+  label: 'Google Crawler',
+  description: 'Principle: Uses Google Search to crawl the web for real historical articles, extracting headlines and sources like a scraping bot.',
+  fetch: (window, scope, count, options) =>
+    fetchESGNews(scope, window.start, lastDay(window), GenerationMode.LIVE_SEARCH, count, options?.preset),
+  classify: (items) => classifyESGItems(items),
+};
+
+// Gemini without tools: simulates realistic news snippets
+export const geminiSyntheticProvider: NewsProvider = {
+  id: GenerationMode.SYNTHETIC,
+  label: 'Synthetic Data',
+  description: 'Principle: Uses Generative AI to simulate realistic financial news data patterns based on historical knowledge.',
+  fetch: (window, scope, count, options) =>
+    fetchESGNews(scope, window.start, lastDay(window), GenerationMode.SYNTHETIC, count, options?.preset, options?.mix),
+  classify: (items) => classifyESGItems(items),
+};
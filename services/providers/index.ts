@@ -0,0 +1,24 @@
+import { NewsProvider } from "../../types";
+import { geminiLiveSearchProvider, geminiSyntheticProvider } from "./geminiProvider";
+import { archiveProvider } from "./archiveProvider";
+
+// Registry of news providers, keyed by the id stored in GenerationConfig.mode
+const providers = new Map<string, NewsProvider>();
+
+export const registerProvider = (provider: NewsProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getProvider = (id: string): NewsProvider => {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown news provider "${id}"`);
+  }
+  return provider;
+};
+
+export const listProviders = (): NewsProvider[] => Array.from(providers.values());
+
+registerProvider(geminiLiveSearchProvider);
+registerProvider(geminiSyntheticProvider);
+registerProvider(archiveProvider);
@@ -0,0 +1,192 @@
+import { ErrorKind, RateLimitOptions } from "../types";
+
+// Adaptive scheduler for provider requests: AIMD concurrency, RPM/TPM budgets and error-aware retries
+export const DEFAULT_RATE_LIMITS: RateLimitOptions = {
+  requestsPerMinute: 60,
+  tokensPerMinute: 1000000,
+  maxConcurrency: 6,
+};
+
+const WINDOW_MS = 60000;
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+const POLL_MS = 100;
+// Latency this many times above the best seen so far counts as the API struggling
+const LATENCY_SLOWDOWN = 3;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Structured status first; the message only counts when the number is marked as a status,
+// e.g. "got status: 429 Too Many Requests" or the SDK's "[503 Service Unavailable]", never a bare count or port
+const statusOf = (error: any): number | undefined => {
+  for (const value of [error?.status, error?.code, error?.error?.code]) {
+    const status = typeof value === 'string' && /^\d{3}$/.test(value) ? parseInt(value) : value;
+    if (typeof status === 'number') return status;
+  }
+  const message = String(error?.message || '');
+  const match = message.match(/\b(?:status|code)\D{0,3}([45]\d\d)\b/i) || message.match(/\[([45]\d\d)\s/);
+  return match ? parseInt(match[1]) : undefined;
+};
+
+// Quota errors are worth waiting out, bad keys and bad requests are not
+export const classifyError = (error: any): ErrorKind => {
+  const message = String(error?.message || error || '');
+  const status = statusOf(error);
+
+  if (message.includes('API Key')) return 'FATAL';
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit|too many requests/i.test(message)) return 'RATE_LIMIT';
+  if (status === 400 || status === 401 || status === 403 || status === 404) return 'FATAL';
+  if (/INVALID_ARGUMENT|PERMISSION_DENIED|UNAUTHENTICATED|not found/i.test(message)) return 'FATAL';
+  return 'RETRYABLE';
+};
+
+// Gemini quota errors carry a suggested delay ("retryDelay": "17s" / "Please retry in 17.2s")
+export const retryDelayOf = (error: any): number | null => {
+  const match = String(error?.message || '').match(/retry(?:Delay)?["':\s]*(?:in\s*)?([\d.]+)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
+
+export interface SchedulerStats {
+  concurrency: number;
+  active: number;
+  requestsLastMinute: number;
+  tokensLastMinute: number;
+  rateLimited: number;
+  retried: number;
+}
+
+export const createScheduler = (initial: RateLimitOptions) => {
+  let options = initial;
+  let maxConcurrency = Math.max(1, options.maxConcurrency);
+  let concurrency = Math.min(3, maxConcurrency);
+  let active = 0;
+  let cooldownUntil = 0;
+  let bestLatency = Infinity;
+  let rateLimited = 0;
+  let retried = 0;
+  // Tickets keep waiting requests in FIFO order
+  let nextTicket = 0;
+  let serving = 0;
+  const log: { at: number; tokens: number }[] = [];
+
+  const prune = (now: number) => {
+    while (log.length && now - log[0].at > WINDOW_MS) log.shift();
+  };
+
+  // Milliseconds until a request of this size may start; 0 when it can go now
+  const waitTime = (tokens: number) => {
+    const now = Date.now();
+    prune(now);
+    if (now < cooldownUntil) return cooldownUntil - now;
+    if (active >= Math.floor(concurrency)) return POLL_MS;
+    if (log.length >= options.requestsPerMinute) return log[0].at + WINDOW_MS - now;
+
+    const used = log.reduce((sum, entry) => sum + entry.tokens, 0);
+    // A single oversized request still runs, just alone in its window
+    if (used > 0 && used + tokens > options.tokensPerMinute) {
+      let freed = 0;
+      for (const entry of log) {
+        freed += entry.tokens;
+        if (used - freed + tokens <= options.tokensPerMinute) return entry.at + WINDOW_MS - now;
+      }
+      return log[log.length - 1].at + WINDOW_MS - now;
+    }
+    return 0;
+  };
+
+  const acquire = async (tokens: number) => {
+    const ticket = nextTicket++;
+    while (serving !== ticket) await sleep(POLL_MS);
+    let wait = waitTime(tokens);
+    while (wait > 0) {
+      await sleep(Math.min(wait, 1000));
+      wait = waitTime(tokens);
+    }
+    serving++;
+    active++;
+    log.push({ at: Date.now(), tokens });
+  };
+
+  const onSuccess = (latency: number) => {
+    bestLatency = Math.min(bestLatency, latency);
+    if (latency > bestLatency * LATENCY_SLOWDOWN) {
+      concurrency = Math.max(1, concurrency * 0.75);
+    } else {
+      // Additive increase: roughly +1 slot per full round of successes
+      concurrency = Math.min(maxConcurrency, concurrency + 1 / Math.floor(concurrency));
+    }
+  };
+
+  const onRateLimit = (error: any, attempt: number) => {
+    rateLimited++;
+    concurrency = Math.max(1, concurrency / 2);
+    const delay = retryDelayOf(error) ?? Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * Math.pow(2, attempt + 2));
+    cooldownUntil = Math.max(cooldownUntil, Date.now() + delay);
+  };
+
+  // Run a request under the limits, retrying quota and transient errors; fatal errors are thrown at once
+  const schedule = async <T>(request: () => Promise<T>, estimatedTokens: number): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      await acquire(estimatedTokens);
+      const started = Date.now();
+      let result: T;
+      try {
+        result = await request();
+      } catch (error: any) {
+        active--;
+        const kind = classifyError(error);
+        if (kind === 'FATAL' || attempt + 1 >= MAX_ATTEMPTS) throw error;
+        retried++;
+        if (kind === 'RATE_LIMIT') {
+          onRateLimit(error, attempt);
+        } else {
+          // Jittered exponential backoff for this request only
+          await sleep(BASE_BACKOFF_MS * Math.pow(2, attempt) * (0.5 + Math.random()));
+        }
+        continue;
+      }
+      active--;
+      onSuccess(Date.now() - started);
+      return result;
+    }
+  };
+
+  // New limits apply to waiting and future requests; the quota history and learned concurrency are kept
+  const configure = (next: RateLimitOptions) => {
+    options = next;
+    maxConcurrency = Math.max(1, next.maxConcurrency);
+    concurrency = Math.min(concurrency, maxConcurrency);
+  };
+
+  const stats = (): SchedulerStats => {
+    prune(Date.now());
+    return {
+      concurrency: Math.floor(concurrency),
+      active,
+      requestsLastMinute: log.length,
+      tokensLastMinute: log.reduce((sum, entry) => sum + entry.tokens, 0),
+      rateLimited,
+      retried,
+    };
+  };
+
+  return { schedule, configure, stats };
+};
+
+export type Scheduler = ReturnType<typeof createScheduler>;
+
+// Requests to one API key share its quota, so every provider call goes through one scheduler
+let sharedScheduler = createScheduler(DEFAULT_RATE_LIMITS);
+
+export const getScheduler = () => sharedScheduler;
+
+// Applied in place, so a crawl that is already running picks the new limits up
+export const configureRateLimits = (options: RateLimitOptions) => {
+  sharedScheduler.configure(options);
+};
+
+// Start over with an empty quota history, e.g. between tests
+export const resetScheduler = (options: RateLimitOptions = DEFAULT_RATE_LIMITS) => {
+  sharedScheduler = createScheduler(options);
+};
@@ -0,0 +1,341 @@
+import { CrawlJob, CrawlRun, Dataset, GenerationConfig, LabelSet, NewsItem, QuarantinedItem, StoredNewsItem, StoredQuarantinedItem } from "../types";
+
+// Local persistence layer (IndexedDB) so long crawls survive reloads and crashes
+const DB_NAME = 'esg-finbert-collector';
+const DB_VERSION = 5;
+const DATASETS_STORE = 'datasets';
+const ITEMS_STORE = 'items';
+const RUNS_STORE = 'runs';
+const LABEL_SETS_STORE = 'labelSets';
+const JOBS_STORE = 'jobs';
+const QUARANTINE_STORE = 'quarantine';
+const ACTIVE_DATASET_KEY = 'esg-collector.activeDatasetId';
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Configs of items deleted this session, so undoing a delete restores their provenance too
+const deletedConfigs = new Map<string, GenerationConfig | undefined>();
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DATASETS_STORE)) {
+        db.createObjectStore(DATASETS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+        const items = db.createObjectStore(ITEMS_STORE, { keyPath: 'id' });
+        items.createIndex('datasetId', 'datasetId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(RUNS_STORE)) {
+        const runs = db.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+        runs.createIndex('datasetId', 'datasetId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(LABEL_SETS_STORE)) {
+        const labelSets = db.createObjectStore(LABEL_SETS_STORE, { keyPath: 'id' });
+        labelSets.createIndex('datasetId', 'datasetId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(JOBS_STORE)) {
+        const jobs = db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+        jobs.createIndex('datasetId', 'datasetId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+        const quarantine = db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id' });
+        quarantine.createIndex('datasetId', 'datasetId', { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Wrap an IDBRequest in a promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolve once a readwrite transaction has been committed
+const done = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const countItems = (tx: IDBTransaction, datasetId: string): Promise<number> =>
+  promisify(tx.objectStore(ITEMS_STORE).index('datasetId').count(IDBKeyRange.only(datasetId)));
+
+export const listDatasets = async (): Promise<Dataset[]> => {
+  const db = await openDb();
+  const tx = db.transaction([DATASETS_STORE, ITEMS_STORE], 'readonly');
+  const datasets = await promisify<Dataset[]>(tx.objectStore(DATASETS_STORE).getAll());
+
+  // Item counts are derived so they never drift from the items store
+  const counts = await Promise.all(datasets.map(d => countItems(tx, d.id)));
+  return datasets
+    .map((d, i) => ({ ...d, itemCount: counts[i] }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const createDataset = async (name: string): Promise<Dataset> => {
+  const now = new Date().toISOString();
+  const dataset: Dataset = { id: `DS-${generateId()}`, name, createdAt: now, updatedAt: now, itemCount: 0 };
+
+  const db = await openDb();
+  const tx = db.transaction(DATASETS_STORE, 'readwrite');
+  tx.objectStore(DATASETS_STORE).put(dataset);
+  await done(tx);
+  return dataset;
+};
+
+export const renameDataset = async (id: string, name: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(DATASETS_STORE, 'readwrite');
+  const store = tx.objectStore(DATASETS_STORE);
+  const dataset = await promisify<Dataset | undefined>(store.get(id));
+  if (!dataset) throw new Error(`Dataset ${id} not found`);
+  store.put({ ...dataset, name, updatedAt: new Date().toISOString() });
+  await done(tx);
+};
+
+export const deleteDataset = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([DATASETS_STORE, ITEMS_STORE, RUNS_STORE, LABEL_SETS_STORE, JOBS_STORE, QUARANTINE_STORE], 'readwrite');
+  tx.objectStore(DATASETS_STORE).delete(id);
+
+  for (const storeName of [ITEMS_STORE, RUNS_STORE, LABEL_SETS_STORE, JOBS_STORE, QUARANTINE_STORE]) {
+    const store = tx.objectStore(storeName);
+    const keys = await promisify(store.index('datasetId').getAllKeys(IDBKeyRange.only(id)));
+    keys.forEach(key => store.delete(key));
+  }
+  await done(tx);
+};
+
+export const loadDatasetItems = async (datasetId: string): Promise<NewsItem[]> => {
+  const db = await openDb();
+  const tx = db.transaction(ITEMS_STORE, 'readonly');
+  const stored = await promisify<StoredNewsItem[]>(
+    tx.objectStore(ITEMS_STORE).index('datasetId').getAll(IDBKeyRange.only(datasetId))
+  );
+
+  // Strip persistence-only fields and keep a stable chronological order
+  return stored
+    .map(({ datasetId: _datasetId, config: _config, ...item }) => item)
+    .sort((a, b) => a.time.localeCompare(b.time));
+};
+
+// Save a batch of items as soon as it arrives, tagged with the config that produced it
+export const saveItems = async (
+  datasetId: string,
+  items: NewsItem[],
+  config?: GenerationConfig
+): Promise<void> => {
+  if (items.length === 0) return;
+
+  const db = await openDb();
+  const tx = db.transaction([DATASETS_STORE, ITEMS_STORE], 'readwrite');
+  const store = tx.objectStore(ITEMS_STORE);
+  items.forEach(item => {
+    const record: StoredNewsItem = { ...item, datasetId, config };
+    store.put(record);
+  });
+  await touchDataset(tx, datasetId);
+  await done(tx);
+};
+
+// Overwrite item fields in place, keeping each record's dataset and originating config
+export const updateItems = async (datasetId: string, items: NewsItem[]): Promise<void> => {
+  if (items.length === 0) return;
+
+  const db = await openDb();
+  const tx = db.transaction([DATASETS_STORE, ITEMS_STORE], 'readwrite');
+  const store = tx.objectStore(ITEMS_STORE);
+  const existing = await promisify<StoredNewsItem[]>(store.index('datasetId').getAll(IDBKeyRange.only(datasetId)));
+  const configs = new Map(existing.map(record => [record.id, record.config]));
+
+  items.forEach(item => {
+    const config = configs.has(item.id) ? configs.get(item.id) : deletedConfigs.get(item.id);
+    const record: StoredNewsItem = { ...item, datasetId, config };
+    store.put(record);
+  });
+  await touchDataset(tx, datasetId);
+  await done(tx);
+};
+
+// Item ids are global across datasets; used to avoid overwriting records of another dataset on import
+export const findExistingIds = async (ids: string[]): Promise<Set<string>> => {
+  const db = await openDb();
+  const tx = db.transaction(ITEMS_STORE, 'readonly');
+  const store = tx.objectStore(ITEMS_STORE);
+  const found = await Promise.all(ids.map(id => promisify(store.getKey(id))));
+  return new Set(ids.filter((_, i) => found[i] !== undefined));
+};
+
+export const deleteItems = async (datasetId: string, ids: string[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([DATASETS_STORE, ITEMS_STORE], 'readwrite');
+  const store = tx.objectStore(ITEMS_STORE);
+  const records = await Promise.all(ids.map(id => promisify<StoredNewsItem | undefined>(store.get(id))));
+  records.forEach(record => {
+    if (record) deletedConfigs.set(record.id, record.config);
+  });
+  ids.forEach(id => store.delete(id));
+  await touchDataset(tx, datasetId);
+  await done(tx);
+};
+
+const touchDataset = async (tx: IDBTransaction, datasetId: string): Promise<void> => {
+  const store = tx.objectStore(DATASETS_STORE);
+  const dataset = await promisify<Dataset | undefined>(store.get(datasetId));
+  if (dataset) {
+    store.put({ ...dataset, updatedAt: new Date().toISOString() });
+  }
+};
+
+// Checkpoint a crawl run (config + per-chunk status) so it can be resumed later
+export const saveRun = async (run: CrawlRun): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(RUNS_STORE, 'readwrite');
+  tx.objectStore(RUNS_STORE).put(run);
+  await done(tx);
+};
+
+export const listRuns = async (datasetId: string): Promise<CrawlRun[]> => {
+  const db = await openDb();
+  const tx = db.transaction(RUNS_STORE, 'readonly');
+  const runs = await promisify<CrawlRun[]>(
+    tx.objectStore(RUNS_STORE).index('datasetId').getAll(IDBKeyRange.only(datasetId))
+  );
+  return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteRun = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(RUNS_STORE, 'readwrite');
+  tx.objectStore(RUNS_STORE).delete(id);
+  await done(tx);
+};
+
+// Label sets imported from other annotators, for agreement measurement
+export const saveLabelSet = async (labelSet: LabelSet): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(LABEL_SETS_STORE, 'readwrite');
+  tx.objectStore(LABEL_SETS_STORE).put(labelSet);
+  await done(tx);
+};
+
+export const listLabelSets = async (datasetId: string): Promise<LabelSet[]> => {
+  const db = await openDb();
+  const tx = db.transaction(LABEL_SETS_STORE, 'readonly');
+  const sets = await promisify<LabelSet[]>(
+    tx.objectStore(LABEL_SETS_STORE).index('datasetId').getAll(IDBKeyRange.only(datasetId))
+  );
+  return sets.sort((a, b) => a.annotator.localeCompare(b.annotator));
+};
+
+export const deleteLabelSet = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(LABEL_SETS_STORE, 'readwrite');
+  tx.objectStore(LABEL_SETS_STORE).delete(id);
+  await done(tx);
+};
+
+// Queued crawl jobs, kept in queue order
+export const saveJob = async (job: CrawlJob): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(JOBS_STORE, 'readwrite');
+  tx.objectStore(JOBS_STORE).put(job);
+  await done(tx);
+};
+
+export const listJobs = async (datasetId: string): Promise<CrawlJob[]> => {
+  const db = await openDb();
+  const tx = db.transaction(JOBS_STORE, 'readonly');
+  const jobs = await promisify<CrawlJob[]>(
+    tx.objectStore(JOBS_STORE).index('datasetId').getAll(IDBKeyRange.only(datasetId))
+  );
+  return jobs.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const deleteJob = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(JOBS_STORE, 'readwrite');
+  tx.objectStore(JOBS_STORE).delete(id);
+  await done(tx);
+};
+
+// Items that failed validation, kept for review until restored or cleared
+export const saveQuarantined = async (datasetId: string, entries: QuarantinedItem[]): Promise<void> => {
+  if (entries.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(QUARANTINE_STORE, 'readwrite');
+  const store = tx.objectStore(QUARANTINE_STORE);
+  const quarantinedAt = new Date().toISOString();
+  entries.forEach(entry => {
+    const stored: StoredQuarantinedItem = { ...entry, id: entry.item.id, datasetId, quarantinedAt };
+    store.put(stored);
+  });
+  await done(tx);
+};
+
+// Newest first, like the in-session list
+export const listQuarantined = async (datasetId: string): Promise<QuarantinedItem[]> => {
+  const db = await openDb();
+  const tx = db.transaction(QUARANTINE_STORE, 'readonly');
+  const stored = await promisify<StoredQuarantinedItem[]>(
+    tx.objectStore(QUARANTINE_STORE).index('datasetId').getAll(IDBKeyRange.only(datasetId))
+  );
+  return stored
+    .sort((a, b) => b.quarantinedAt.localeCompare(a.quarantinedAt))
+    .map(({ item, issues }) => ({ item, issues }));
+};
+
+export const deleteQuarantined = async (ids: string[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(QUARANTINE_STORE, 'readwrite');
+  const store = tx.objectStore(QUARANTINE_STORE);
+  ids.forEach(id => store.delete(id));
+  await done(tx);
+};
+
+export const clearQuarantined = async (datasetId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(QUARANTINE_STORE, 'readwrite');
+  const store = tx.objectStore(QUARANTINE_STORE);
+  const keys = await promisify(store.index('datasetId').getAllKeys(IDBKeyRange.only(datasetId)));
+  keys.forEach(key => store.delete(key));
+  await done(tx);
+};
+
+// Remember which dataset was open so a reload reopens it
+export const getActiveDatasetId = (): string | null => localStorage.getItem(ACTIVE_DATASET_KEY);
+
+export const setActiveDatasetId = (id: string) => localStorage.setItem(ACTIVE_DATASET_KEY, id);
+
+// Small UI preferences (templates, thresholds, export settings) live in localStorage as JSON
+const PREFERENCE_PREFIX = 'esg-collector.pref.';
+
+export const getPreference = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(PREFERENCE_PREFIX + key);
+    return raw === null ? fallback : JSON.parse(raw);
+  } catch {
+    return fallback;
+  }
+};
+
+export const setPreference = <T>(key: string, value: T) =>
+  localStorage.setItem(PREFERENCE_PREFIX + key, JSON.stringify(value));
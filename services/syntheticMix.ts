@@ -0,0 +1,177 @@
+import { ChunkMix, CrawlChunk, CrawlRun, GeneratedLabels, MixReportRow, MixTally, NewsItem, SyntheticTargets } from "../types";
+import { lastDay } from "./crawlPlan";
+
+// Target distributions for SYNTHETIC runs: per-window quotas, tallies of what was kept, and the achieved-vs-requested report
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Dimension = 'sentiment' | 'pillar' | 'publisher';
+const DIMENSIONS: Dimension[] = ['sentiment', 'pillar', 'publisher'];
+
+export const SENTIMENT_VALUES = ['positive', 'neutral', 'negative'] as const;
+export const PILLAR_VALUES = ['E', 'S', 'G'] as const;
+
+export const hasTargets = (targets?: SyntheticTargets) =>
+  !!targets && (DIMENSIONS.some(d => Object.keys(shares(targets[d])).length > 0) || (targets.events || []).some(e => e.items > 0));
+
+// Relative weights -> shares summing to 1; zero and negative weights are dropped
+const shares = (weights?: Record<string, number>): Record<string, number> => {
+  const entries = Object.entries(weights || {}).filter(([, w]) => w > 0);
+  const sum = entries.reduce((acc, [, w]) => acc + w, 0);
+  return Object.fromEntries(entries.map(([key, w]) => [key, w / sum]));
+};
+
+// Split `total` into whole numbers proportional to the weights (largest remainder)
+export const apportion = (weights: Record<string, number>, total: number): Record<string, number> => {
+  const normalized = shares(weights);
+  const keys = Object.keys(normalized);
+  const exact = keys.map(key => normalized[key] * total);
+  const counts = exact.map(Math.floor);
+  let left = total - counts.reduce((acc, c) => acc + c, 0);
+  keys
+    .map((key, i) => ({ i, remainder: exact[i] - counts[i] }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ i }) => { if (left > 0) { counts[i]++; left--; } });
+  return Object.fromEntries(keys.map((key, i): [string, number] => [key, counts[i]]).filter(([, c]) => c > 0));
+};
+
+// Ask each window for what keeps the run on target, so windows that came back skewed are evened out by later ones
+const quotas = (weights: Record<string, number> | undefined, achieved: Record<string, number>, kept: number, count: number) => {
+  const target = shares(weights);
+  if (Object.keys(target).length === 0) return undefined;
+  const deficit = Object.fromEntries(Object.entries(target).map(([key, share]) =>
+    [key, Math.max(0, share * (kept + count) - (achieved[key] || 0))]));
+  return apportion(Object.values(deficit).some(d => d > 0) ? deficit : target, count);
+};
+
+const overlapDays = (chunk: CrawlChunk, start: string, end: string) => {
+  const from = Math.max(new Date(chunk.start).getTime(), new Date(start).getTime());
+  const to = Math.min(new Date(chunk.end).getTime(), new Date(end).getTime() + DAY_MS);
+  return Math.max(0, (to - from) / DAY_MS);
+};
+
+export const emptyTally = (): MixTally => ({ total: 0, sentiment: {}, pillar: {}, publisher: {}, events: {} });
+
+export const planChunkMix = (targets: SyntheticTargets, tally: MixTally = emptyTally(), chunk: CrawlChunk): ChunkMix => {
+  const mix: ChunkMix = {};
+  DIMENSIONS.forEach(d => {
+    const planned = quotas(targets[d], tally[d], tally.total, chunk.count);
+    if (planned) mix[d] = planned;
+  });
+
+  // Events get their share of items by how much of the event's range the window covers, up to what is still missing
+  const events = (targets.events || []).flatMap((event, index) => {
+    const overlap = overlapDays(chunk, event.start, event.end);
+    const missing = event.items - (tally.events[index] || 0);
+    if (overlap === 0 || missing <= 0) return [];
+    const eventDays = Math.max(1, (new Date(event.end).getTime() - new Date(event.start).getTime()) / DAY_MS + 1);
+    const items = Math.min(chunk.count, missing, Math.max(1, Math.round(event.items * overlap / eventDays)));
+    // The window only covers part of the event, so only those dates are asked for
+    const last = lastDay(chunk);
+    const start = event.start > chunk.start ? event.start : chunk.start;
+    const end = event.end < last ? event.end : last;
+    return [{ ...event, index, items, start, end }];
+  });
+  if (events.length) mix.events = events;
+  return mix;
+};
+
+// Instructions appended to the synthetic prompt; the generator labels each item so the run can be tallied
+export const describeMix = (mix: ChunkMix) => {
+  const list = (quota: Record<string, number>) => Object.entries(quota).map(([key, n]) => `${n} ${key}`).join(', ');
+  const lines: string[] = [];
+  if (mix.sentiment) lines.push(`- Sentiment (for an ESG investor): ${list(mix.sentiment)}. Set "sentiment" on every item.`);
+  if (mix.pillar) lines.push(`- ESG pillar (E = Environmental, S = Social, G = Governance): ${list(mix.pillar)}. Set "pillar" on every item.`);
+  if (mix.publisher) lines.push(`- Publisher house style: ${list(mix.publisher)}. Write each item in that publisher's style and set "sourceName" to it.`);
+  (mix.events || []).forEach(e => lines.push(
+    `- Event #${e.index + 1}: ${e.items} item(s) must report on "${e.description}", dated between ${e.start} and ${e.end}. Set "event" to ${e.index + 1} on those items.`
+  ));
+  return lines.length ? `\n\nRequired distribution for this batch (counts are exact):\n${lines.join('\n')}\n` : '';
+};
+
+// Keep only labels the generator was allowed to use
+export const parseGeneratedLabels = (raw: any, mix: ChunkMix): GeneratedLabels | undefined => {
+  const labels: GeneratedLabels = {};
+  if (SENTIMENT_VALUES.includes(raw?.sentiment)) labels.sentiment = raw.sentiment;
+  if (PILLAR_VALUES.includes(raw?.pillar)) labels.pillar = raw.pillar;
+  const event = Number(raw?.event) - 1;
+  if ((mix.events || []).some(e => e.index === event)) labels.event = event;
+  return Object.keys(labels).length ? labels : undefined;
+};
+
+// Publishers outside the target list are counted as "other"
+const publisherKey = (targets: SyntheticTargets, publisher?: string) =>
+  Object.keys(targets.publisher || {}).find(key => key.toLowerCase() === publisher?.trim().toLowerCase()) || 'other';
+
+export const tallyItems = (tally: MixTally = emptyTally(), items: NewsItem[], targets: SyntheticTargets): MixTally => {
+  const next: MixTally = {
+    total: tally.total + items.length,
+    sentiment: { ...tally.sentiment },
+    pillar: { ...tally.pillar },
+    publisher: { ...tally.publisher },
+    events: { ...tally.events },
+  };
+  const bump = (counts: Record<string, number>, key?: string | number) => {
+    if (key !== undefined) counts[key] = (counts[key] || 0) + 1;
+  };
+  items.forEach(item => {
+    if (targets.sentiment) bump(next.sentiment, item.generated?.sentiment || 'unlabeled');
+    if (targets.pillar) bump(next.pillar, item.generated?.pillar || 'unlabeled');
+    if (targets.publisher) bump(next.publisher, publisherKey(targets, item.publisher));
+    bump(next.events, item.generated?.event);
+  });
+  return next;
+};
+
+export const mixReport = (run: CrawlRun): MixReportRow[] => {
+  const targets = run.config.synthetic;
+  if (!hasTargets(targets)) return [];
+  const tally = run.mix || emptyTally();
+  const rows: MixReportRow[] = [];
+  DIMENSIONS.forEach(d => {
+    const target = shares(targets[d]);
+    const keys = Object.keys(target);
+    if (keys.length === 0) return;
+    // Values the targets don't ask for ("unlabeled", "other" publishers) still show up, with a zero target
+    Object.keys(tally[d]).filter(key => !keys.includes(key)).forEach(key => keys.push(key));
+    keys.forEach(key => rows.push({
+      dimension: d,
+      key,
+      targetShare: target[key] || 0,
+      requested: Math.round((target[key] || 0) * tally.total),
+      achieved: tally[d][key] || 0,
+    }));
+  });
+  (targets.events || []).forEach((event, index) => rows.push({
+    dimension: 'event',
+    key: event.description,
+    requested: event.items,
+    achieved: tally.events[index] || 0,
+  }));
+  return rows;
+};
+
+const percent = (n: number) => `${Math.round(n * 100)}%`;
+
+// e.g. "sentiment: positive 38%/40%, neutral 21%/20% · event "CEO fraud probe": 4/5"
+export const formatMixReport = (rows: MixReportRow[], total: number) => {
+  const parts: string[] = [];
+  DIMENSIONS.forEach(d => {
+    const dimRows = rows.filter(r => r.dimension === d);
+    if (dimRows.length) {
+      parts.push(`${d}: ${dimRows.map(r => `${r.key} ${percent(total ? r.achieved / total : 0)}/${percent(r.targetShare || 0)}`).join(', ')}`);
+    }
+  });
+  rows.filter(r => r.dimension === 'event').forEach(r => parts.push(`event "${r.key}": ${r.achieved}/${r.requested}`));
+  return parts.join(' · ');
+};
+
+// "Reuters: 50, Bloomberg: 30" <-> { Reuters: 50, Bloomberg: 30 }
+export const parseWeights = (text: string): Record<string, number> =>
+  Object.fromEntries(text.split(',')
+    .map(part => part.split(':').map(s => s.trim()))
+    .filter(([key, weight]) => key && parseFloat(weight) > 0)
+    .map(([key, weight]) => [key, parseFloat(weight)]));
+
+export const formatWeights = (weights?: Record<string, number>) =>
+  Object.entries(weights || {}).map(([key, weight]) => `${key}: ${weight}`).join(', ');
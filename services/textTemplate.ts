@@ -0,0 +1,34 @@
+import { NewsItem, TextTemplate } from "../types";
+
+export const DEFAULT_TEXT_TEMPLATE = TextTemplate.HEADLINE_SUMMARY;
+
+export const TEXT_TEMPLATE_LABELS: Record<TextTemplate, string> = {
+  [TextTemplate.HEADLINE]: 'Headline only',
+  [TextTemplate.SUMMARY]: 'Summary only',
+  [TextTemplate.HEADLINE_SUMMARY]: 'Headline + Summary',
+};
+
+// Derive the FinBERT input text; falls back to whichever part exists
+export const buildText = (headline: string | undefined, summary: string | undefined, template: TextTemplate): string => {
+  const h = (headline || '').trim();
+  const s = (summary || '').trim();
+
+  switch (template) {
+    case TextTemplate.HEADLINE:
+      return h || s;
+    case TextTemplate.SUMMARY:
+      return s || h;
+    default:
+      if (!h) return s;
+      if (!s) return h;
+      return `${h.replace(/[.!?]$/, '')}. ${s}`;
+  }
+};
+
+// Items collected before the structured schema have no headline/summary, and hand-edited
+// texts are authoritative; both are kept as is
+export const applyTextTemplate = (item: NewsItem, template: TextTemplate): NewsItem => {
+  if (item.manualText) return item;
+  if (item.headline === undefined && item.summary === undefined) return item;
+  return { ...item, text: buildText(item.headline, item.summary, template) };
+};
@@ -0,0 +1,121 @@
+import { CrawlWindow, NewsItem, QuarantinedItem, ValidationIssue, ValidationOptions, ValidationRule } from "../types";
+import { classifyText } from "./classifier";
+import { lastDay } from "./crawlPlan";
+
+// Checks incoming items before they reach the dataset; failures are quarantined with their reasons
+export const DEFAULT_VALIDATION_OPTIONS: ValidationOptions = {
+  enabled: true,
+  dateInWindow: true,
+  minTextLength: 40,
+  maxTextLength: 5000,
+  requireValidUrl: true,
+  englishOnly: true,
+  requireEsgKeywords: false,
+  requireVerified: false,
+};
+
+export const RULE_LABELS: Record<ValidationRule, string> = {
+  DATE_FORMAT: 'Bad date',
+  DATE_WINDOW: 'Outside window',
+  TEXT_LENGTH: 'Text length',
+  URL: 'Invalid URL',
+  LANGUAGE: 'Not English',
+  ESG_RELEVANCE: 'Not ESG related',
+  GROUNDING: 'Unverified source',
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isIsoDate = (value?: string) => {
+  if (!value || !ISO_DATE.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+export const isValidUrl = (value: string) => {
+  try {
+    const url = new URL(value.trim());
+    return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.includes('.');
+  } catch {
+    return false;
+  }
+};
+
+const STOPWORDS = new Set(['the', 'and', 'of', 'to', 'in', 'a', 'is', 'for', 'on', 'with', 'its', 'as', 'by', 'at', 'from', 'that', 'has', 'will', 'after', 'over']);
+
+// Cheap heuristic: mostly Latin script and a normal share of English function words
+export const looksEnglish = (text: string) => {
+  const letters = text.match(/\p{L}/gu) || [];
+  if (letters.length === 0) return false;
+  const latin = letters.filter(c => /[a-z]/i.test(c)).length;
+  if (latin / letters.length < 0.9) return false;
+
+  const words = text.toLowerCase().match(/[a-z']+/g) || [];
+  if (words.length < 8) return true; // Too short to judge
+  const hits = words.filter(w => STOPWORDS.has(w)).length;
+  return hits / words.length >= 0.05;
+};
+
+const ESG_TERMS = /\b(esg|sustainab\w*|environmental|social|governance)\b/i;
+
+export const validateItem = (
+  item: NewsItem,
+  options: ValidationOptions,
+  window?: CrawlWindow
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const add = (rule: ValidationRule, message: string) => issues.push({ rule, message });
+
+  if (!isIsoDate(item.time)) {
+    add('DATE_FORMAT', `"${item.time ?? ''}" is not a YYYY-MM-DD date`);
+  } else if (options.dateInWindow && window && (item.time < window.start || item.time >= window.end)) {
+    add('DATE_WINDOW', `${item.time} is outside ${window.start} – ${lastDay(window)}`);
+  }
+
+  const text = (item.text || '').trim();
+  // Only a summary the provider returned empty counts; feeds without descriptions leave it unset and are judged by their text
+  if (item.headline !== undefined && item.summary !== undefined && !item.summary.trim()) {
+    add('TEXT_LENGTH', 'Empty summary');
+  } else if (text.length < options.minTextLength) {
+    add('TEXT_LENGTH', `Text has ${text.length} characters (min ${options.minTextLength})`);
+  } else if (text.length > options.maxTextLength) {
+    add('TEXT_LENGTH', `Text has ${text.length} characters (max ${options.maxTextLength})`);
+  }
+
+  if (options.requireValidUrl && item.url && !isValidUrl(item.url)) {
+    add('URL', `"${item.url}" is not a valid http(s) URL`);
+  }
+
+  if (options.englishOnly && text && !looksEnglish(text)) {
+    add('LANGUAGE', 'Text does not look like English');
+  }
+
+  if (options.requireEsgKeywords && !ESG_TERMS.test(text) && classifyText(text).topics.length === 0) {
+    add('ESG_RELEVANCE', 'No ESG keywords found');
+  }
+
+  // Only items that went through the grounding cross-check carry a status
+  if (options.requireVerified && item.verification && item.verification !== 'verified') {
+    add('GROUNDING', item.verification === 'suspected' ? 'Source not found in search grounding' : 'Article not confirmed by search grounding');
+  }
+
+  return issues;
+};
+
+// Split a batch into items that pass and quarantined ones
+export const validateItems = (
+  items: NewsItem[],
+  options: ValidationOptions,
+  window?: CrawlWindow
+): { valid: NewsItem[]; quarantined: QuarantinedItem[] } => {
+  if (!options.enabled) return { valid: items, quarantined: [] };
+
+  const valid: NewsItem[] = [];
+  const quarantined: QuarantinedItem[] = [];
+  items.forEach(item => {
+    const issues = validateItem(item, options, window);
+    if (issues.length) quarantined.push({ item, issues });
+    else valid.push(item);
+  });
+  return { valid, quarantined };
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { CrawlChunk, GenerationConfig, GenerationMode } from '../types';
+import { estimateConfigs, formatUsage, pricingFor, requestCost, totalCost, usageByModel, usageFromResponse } from '../services/costService';
+
+const config = (patch: Partial<GenerationConfig> = {}): GenerationConfig => ({
+  ticker: 'XOM',
+  startDate: '2024-01-01',
+  endDate: '2024-12-31',
+  mode: GenerationMode.SYNTHETIC,
+  itemsPerDay: 1,
+  ...patch,
+});
+
+const chunk = (model: string, promptTokens: number, outputTokens: number, searchCalls = 0): CrawlChunk => ({
+  id: 'CH-0', start: '2024-01-01', end: '2024-01-26', count: 25, status: 'succeeded', itemCount: 25,
+  request: { requestedAt: '', durationMs: 0, model, usage: { promptTokens, outputTokens, searchCalls } },
+});
+
+describe('usageFromResponse', () => {
+  it('bills tool-use prompt tokens as input and thinking as output', () => {
+    const usage = usageFromResponse(
+      { promptTokenCount: 200, toolUsePromptTokenCount: 2000, candidatesTokenCount: 500, thoughtsTokenCount: 1500 },
+      ['query one', 'query two'],
+    );
+    expect(usage).toEqual({ promptTokens: 2200, outputTokens: 2000, searchCalls: 2 });
+  });
+});
+
+describe('requestCost', () => {
+  it('prices tokens per million and searches per thousand', () => {
+    // 1M prompt tokens at $0.30 + 1M output tokens at $2.50
+    expect(requestCost('gemini-2.5-flash', { promptTokens: 1_000_000, outputTokens: 1_000_000, searchCalls: 0 })).toBeCloseTo(2.8);
+    // Gemini 3 bills every search query, 2.5 models one unit per grounded request
+    expect(requestCost('gemini-3-pro-preview', { promptTokens: 0, outputTokens: 0, searchCalls: 3 })).toBeCloseTo(0.042);
+    expect(requestCost('gemini-2.5-pro', { promptTokens: 0, outputTokens: 0, searchCalls: 3 })).toBeCloseTo(0.035);
+  });
+
+  it('matches versioned model ids to their family and prices unknown ones high', () => {
+    expect(pricingFor('gemini-2.5-flash-lite-001')).toBe(pricingFor('gemini-2.5-flash-lite'));
+    expect(pricingFor('some-new-model')).toBe(pricingFor('gemini-3-pro-preview'));
+  });
+});
+
+describe('usageByModel', () => {
+  it('sums recorded usage per model', () => {
+    const totals = usageByModel([chunk('gemini-2.5-flash', 1000, 4000), chunk('gemini-2.5-flash', 1000, 4000), chunk('gemini-2.5-pro', 1000, 1000)]);
+    expect(totals.map(t => [t.model, t.requests, t.promptTokens, t.outputTokens])).toEqual([
+      ['gemini-2.5-flash', 2, 2000, 8000],
+      ['gemini-2.5-pro', 1, 1000, 1000],
+    ]);
+    expect(formatUsage(totals)).toBe('$0.03 (gemini-2.5-flash $0.02, gemini-2.5-pro $0.01)');
+  });
+});
+
+describe('estimateConfigs', () => {
+  it('estimates every planned window with the preset model', () => {
+    const [synthetic] = estimateConfigs([config()]);
+    expect(synthetic.model).toBe('gemini-2.5-flash');
+    // 365 days at 25 items per window
+    expect(synthetic.requests).toBe(15);
+    expect(synthetic.searchCalls).toBe(0);
+  });
+
+  it('makes a ten-year, high-density live crawl visibly expensive', () => {
+    const cheap = totalCost(estimateConfigs([config({ mode: GenerationMode.LIVE_SEARCH, itemsPerDay: 1 })]));
+    const typo = totalCost(estimateConfigs([config({ mode: GenerationMode.LIVE_SEARCH, startDate: '2015-01-01', endDate: '2025-01-01', itemsPerDay: 10 })]));
+    expect(typo).toBeGreaterThan(cheap * 50);
+  });
+
+  it('leaves providers without a model out', () => {
+    expect(estimateConfigs([config({ mode: GenerationMode.ARCHIVE })])).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { CrawlChunk, CrawlRun, GenerationConfig, NewsItem } from '../types';
+import { coveredUntil, createRun, interleave, planChunks, planTopUp, planUpdate, summarizeRun } from '../services/crawlPlan';
+
+const config = (patch: Partial<GenerationConfig> = {}): GenerationConfig => ({
+  ticker: 'S&P 500 Energy Sector',
+  startDate: '2024-01-01',
+  endDate: '2024-03-01',
+  mode: 'SYNTHETIC',
+  itemsPerDay: 1.5,
+  ...patch,
+});
+
+const days = (chunk: CrawlChunk) => (new Date(chunk.end).getTime() - new Date(chunk.start).getTime()) / 86400000;
+
+describe('planChunks', () => {
+  it('sizes windows to ~25 items per request', () => {
+    const chunks = planChunks(config());
+    // ceil(25 / 1.5) = 17 days per window; 60 days -> 17 + 17 + 17 + 9
+    expect(chunks.map(days)).toEqual([17, 17, 17, 9]);
+    expect(chunks.map(c => c.count)).toEqual([26, 26, 26, 14]);
+    expect(chunks.map(c => c.id)).toEqual(['CH-0', 'CH-1', 'CH-2', 'CH-3']);
+    expect(chunks.every(c => c.status === 'pending' && c.itemCount === 0)).toBe(true);
+  });
+
+  it('covers the range without gaps or overlaps', () => {
+    const chunks = planChunks(config({ startDate: '2015-01-01', endDate: '2025-11-01', itemsPerDay: 0.7 }));
+    expect(chunks[0].start).toBe('2015-01-01');
+    expect(chunks[chunks.length - 1].end).toBe('2025-11-01');
+    chunks.slice(1).forEach((chunk, i) => expect(chunk.start).toBe(chunks[i].end));
+  });
+
+  it('clamps windows to at least 5 days', () => {
+    const chunks = planChunks(config({ itemsPerDay: 10 }));
+    expect(days(chunks[0])).toBe(5);
+    expect(chunks[0].count).toBe(50);
+  });
+
+  it('clamps windows to at most 60 days', () => {
+    const chunks = planChunks(config({ endDate: '2024-12-31', itemsPerDay: 0.1 }));
+    expect(days(chunks[0])).toBe(60);
+    expect(chunks[0].count).toBe(6);
+  });
+
+  it('plans nothing for an empty range', () => {
+    expect(planChunks(config({ endDate: '2024-01-01' }))).toEqual([]);
+  });
+});
+
+describe('planTopUp', () => {
+  const chunk = (patch: Partial<CrawlChunk>): CrawlChunk => ({
+    id: 'CH-0', start: '2024-01-01', end: '2024-01-21', count: 20, status: 'succeeded', itemCount: 0, ...patch,
+  });
+
+  it('splits an under-filled window into two halves asking for the shortfall', () => {
+    const topUps = planTopUp(chunk({ itemCount: 10 }));
+    expect(topUps.map(c => [c.id, c.start, c.end, c.count])).toEqual([
+      ['CH-0.1', '2024-01-01', '2024-01-11', 5],
+      ['CH-0.2', '2024-01-11', '2024-01-21', 5],
+    ]);
+    expect(topUps.every(c => c.parentId === 'CH-0' && c.depth === 1)).toBe(true);
+  });
+
+  it('leaves windows with at least 80% of their target alone', () => {
+    expect(planTopUp(chunk({ itemCount: 16 }))).toEqual([]);
+  });
+
+  it('stops after two generations', () => {
+    expect(planTopUp(chunk({ itemCount: 0, depth: 2 }))).toEqual([]);
+  });
+});
+
+describe('summarizeRun', () => {
+  it('counts only planned windows towards the target', () => {
+    const run = createRun('ds', config());
+    run.chunks[0] = { ...run.chunks[0], status: 'succeeded', itemCount: 10 };
+    run.chunks.push(...planTopUp(run.chunks[0]));
+    const summary = summarizeRun(run);
+    expect(summary.requested).toBe(92);
+    expect(summary.topUps).toBe(2);
+    expect(summary.pending).toBe(5);
+  });
+});
+
+describe('interleave', () => {
+  it('alternates between lists of different lengths', () => {
+    expect(interleave<number | string>([[1, 2, 3], ['a'], [10, 20]])).toEqual([1, 'a', 10, 2, 20, 3]);
+  });
+});
+
+describe('planUpdate', () => {
+  const item = (time: string, ticker = 'XOM'): NewsItem => ({ id: time, time, text: '', ticker });
+  const run = (chunks: Partial<CrawlChunk>[]): CrawlRun => ({
+    ...createRun('ds', config({ ticker: 'XOM' })),
+    chunks: chunks.map((c, i) => ({ id: `CH-${i}`, start: '', end: '', count: 1, status: 'succeeded', itemCount: 0, ...c })),
+  });
+
+  it('starts from the later of the latest item and the latest completed window', () => {
+    const items = [item('2024-02-10'), item('2024-05-01', 'CVX')];
+    expect(coveredUntil(config({ ticker: 'XOM' }), items, [])).toBe('2024-02-10');
+    expect(coveredUntil(config({ ticker: 'XOM' }), items, [run([{ end: '2024-02-20' }, { end: '2024-04-01', status: 'failed' }])])).toBe('2024-02-20');
+  });
+
+  it('narrows the range to what is not covered yet', () => {
+    const update = planUpdate(config({ ticker: 'XOM' }), [item('2024-02-10')], [], '2024-03-15');
+    expect(update).toMatchObject({ startDate: '2024-02-10', endDate: '2024-03-15' });
+  });
+
+  it('returns null when the scope is up to date', () => {
+    expect(planUpdate(config({ ticker: 'XOM' }), [item('2024-03-15')], [], '2024-03-15')).toBeNull();
+  });
+});
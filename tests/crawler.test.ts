@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CrawlRun, GenerationConfig, GenerationMode, NewsItem } from '../types';
+import { createRun, getRemainingChunks } from '../services/crawlPlan';
+import { crawlRuns, CrawlOptions, formatProgress } from '../services/crawler';
+import { setClientFactory } from '../services/geminiService';
+import { resetScheduler } from '../services/rateLimiter';
+import { DEFAULT_DEDUP_OPTIONS } from '../services/dedupService';
+import { DEFAULT_VALIDATION_OPTIONS } from '../services/validationService';
+import { DEFAULT_TEXT_TEMPLATE } from '../services/textTemplate';
+import { createMockClient, MockStep, settleWithFakeTimers } from './mockGenAI';
+
+// January 2024 matches the dates in the synthetic fixture
+const config = (patch: Partial<GenerationConfig> = {}): GenerationConfig => ({
+  ticker: 'XOM',
+  startDate: '2024-01-01',
+  endDate: '2024-01-31',
+  mode: GenerationMode.SYNTHETIC,
+  itemsPerDay: 0.2,
+  ...patch,
+});
+
+const useMock = (steps: MockStep[], fallback?: MockStep) => {
+  const mock = createMockClient(steps, fallback);
+  setClientFactory(() => mock.client);
+  return mock;
+};
+
+// Collects what the crawler hands to its persistence callbacks
+const crawl = (runs: CrawlRun[], patch: Partial<CrawlOptions> = {}) => {
+  const saved: NewsItem[] = [];
+  const checkpoints: string[] = [];
+  const options: CrawlOptions = {
+    existing: [],
+    dedup: DEFAULT_DEDUP_OPTIONS,
+    validation: DEFAULT_VALIDATION_OPTIONS,
+    textTemplate: DEFAULT_TEXT_TEMPLATE,
+    maxConcurrency: 1,
+    onBatch: (_run, { kept }) => { saved.push(...kept); },
+    onCheckpoint: (run) => { checkpoints.push(run.status); },
+    ...patch,
+  };
+  return { result: crawlRuns(runs, options), saved, checkpoints };
+};
+
+beforeEach(() => {
+  process.env.API_KEY = 'test-key';
+  resetScheduler();
+  // Failed windows are logged; keep the test output readable
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  setClientFactory();
+  delete process.env.API_KEY;
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('crawlRuns', () => {
+  it('collects a run and links items to their run and window', async () => {
+    const { calls } = useMock([{ fixture: 'synthetic' }]);
+    const run = createRun('ds', config());
+    const { result, saved, checkpoints } = crawl([run]);
+    const stats = await result;
+
+    expect(calls).toHaveLength(1);
+    expect(stats).toMatchObject({ items: 5, errors: 0, stopped: false });
+    expect(saved).toHaveLength(5);
+    expect(saved.every(item => item.runId === run.id && item.chunkId === 'CH-0')).toBe(true);
+    expect(run.status).toBe('completed');
+    expect(checkpoints[checkpoints.length - 1]).toBe('completed');
+    expect(run.chunks[0]).toMatchObject({ status: 'succeeded', itemCount: 5, received: 5 });
+    expect(run.chunks[0].request?.model).toBe('gemini-2.5-flash');
+    expect(Object.keys(run.prompts || {})).toEqual([run.chunks[0].request?.templateHash]);
+  });
+
+  it('tops up windows that came back short', async () => {
+    const { calls } = useMock([{ fixture: 'synthetic', items: 2 }], { fixture: 'synthetic', items: 0 });
+    const run = createRun('ds', config());
+    await crawl([run]).result;
+
+    const topUps = run.chunks.filter(c => c.parentId === 'CH-0');
+    expect(topUps.map(c => c.id)).toEqual(['CH-0.1', 'CH-0.2']);
+    expect(topUps.every(c => c.status === 'succeeded')).toBe(true);
+    // Empty top-ups are split once more, then given up on
+    expect(run.chunks.filter(c => c.depth === 2)).toHaveLength(4);
+    expect(calls).toHaveLength(1 + 2 + 4);
+    expect(run.status).toBe('completed');
+  });
+
+  it('runs the top-ups of a single window in parallel', async () => {
+    const mock = createMockClient([{ fixture: 'synthetic', items: 2 }], { fixture: 'synthetic', items: 0 });
+    let active = 0;
+    let peak = 0;
+    const generateContent = async (params: any) => {
+      peak = Math.max(peak, ++active);
+      // Longer than the 200ms idle workers wait between looks for new top-ups
+      await new Promise(r => setTimeout(r, 300));
+      try { return await mock.client.models.generateContent(params); } finally { active--; }
+    };
+    setClientFactory(() => ({ models: { generateContent } }) as any);
+
+    const run = createRun('ds', config());
+    await crawl([run], { maxConcurrency: 3 }).result;
+    expect(run.chunks.filter(c => c.parentId)).toHaveLength(2 + 4);
+    expect(peak).toBeGreaterThan(1);
+  });
+
+  it('drops items already in the dataset', async () => {
+    useMock([{ fixture: 'synthetic' }, { fixture: 'synthetic' }], { fixture: 'synthetic', items: 0 });
+    const first = crawl([createRun('ds', config())]);
+    await first.result;
+
+    const second = crawl([createRun('ds', config())], { existing: first.saved });
+    const stats = await second.result;
+    expect(second.saved).toEqual([]);
+    expect(stats.duplicates).toBe(5);
+  });
+
+  it('stops after the window in flight and leaves the rest resumable', async () => {
+    const { calls } = useMock([], { fixture: 'synthetic' });
+    // 5 items per day -> 5-day windows
+    const run = createRun('ds', config({ itemsPerDay: 5 }));
+    let stop = false;
+    const { result } = crawl([run], { onBatch: () => { stop = true; }, shouldStop: () => stop });
+    const stats = await result;
+
+    expect(stats.stopped).toBe(true);
+    expect(calls).toHaveLength(1);
+    expect(run.status).toBe('stopped');
+    expect(run.chunks[0].status).toBe('succeeded');
+    expect(getRemainingChunks(run).length).toBeGreaterThan(0);
+
+    // Window ends are exclusive; the prompt names the last day inside the window
+    expect(String(calls[0].contents)).toContain('2024-01-01 to 2024-01-05');
+
+    // Resuming picks up the pending windows only
+    await crawl([run]).result;
+    expect(run.status).toBe('completed');
+    expect(calls.slice(1).some(c => String(c.contents).includes('2024-01-01 to 2024-01-05'))).toBe(false);
+  });
+
+  it('fails the run on a missing API key', async () => {
+    delete process.env.API_KEY;
+    useMock([{ fixture: 'synthetic' }]);
+    const run = createRun('ds', config());
+
+    await expect(crawl([run]).result).rejects.toThrow('API Key is missing');
+    expect(run.status).toBe('failed');
+    expect(run.chunks[0]).toMatchObject({ status: 'failed', error: expect.stringContaining('API Key') });
+  });
+
+  it('records usage per window and stops before a window could exceed the budget', async () => {
+    const { calls } = useMock([], { fixture: 'synthetic' });
+    const run = createRun('ds', config({ endDate: '2024-03-31', itemsPerDay: 1 }));
+    const stats = await crawl([run], { budget: 0.015 }).result;
+
+    expect(run.chunks[0].request?.usage).toEqual({ promptTokens: 182, outputTokens: 655, searchCalls: 0 });
+    expect(stats.usage).toHaveLength(1);
+    expect(stats.usage[0]).toMatchObject({ model: 'gemini-2.5-flash', requests: calls.length });
+    expect(stats.usage[0].cost).toBeLessThanOrEqual(0.015);
+    expect(stats.budgetReached).toBe(true);
+    expect(run.status).toBe('stopped');
+    expect(getRemainingChunks(run).length).toBeGreaterThan(0);
+  });
+
+  it('starts nothing when the first window alone could exceed the budget', async () => {
+    const { calls } = useMock([{ fixture: 'synthetic' }]);
+    const stats = await crawl([createRun('ds', config({ itemsPerDay: 1 }))], { budget: 0.001 }).result;
+    expect(calls).toHaveLength(0);
+    expect(stats.budgetReached).toBe(true);
+  });
+
+  it('counts what earlier jobs of the queue spent toward the budget', async () => {
+    const { calls } = useMock([{ fixture: 'synthetic' }]);
+    const stats = await crawl([createRun('ds', config({ itemsPerDay: 1 }))], { budget: 10, spent: 10 }).result;
+    expect(calls).toHaveLength(0);
+    expect(stats.budgetReached).toBe(true);
+    expect(formatProgress(stats)).toContain('+ $10.00 earlier of $10.00 budget');
+  });
+
+  it('marks a window failed once retries are used up and finishes the others', async () => {
+    vi.useFakeTimers();
+    const outage: MockStep = { error: { status: 503, message: 'Service Unavailable' } };
+    useMock([outage, outage, outage, outage], { fixture: 'synthetic' });
+    const run = createRun('ds', config({ itemsPerDay: 1 }));
+
+    const stats = await settleWithFakeTimers(crawl([run]).result);
+    expect(stats.errors).toBe(1);
+    expect(run.chunks[0]).toMatchObject({ status: 'failed', error: 'Service Unavailable' });
+    expect(run.chunks.slice(1).every(c => c.status === 'succeeded')).toBe(true);
+    expect(run.status).toBe('failed');
+  });
+});
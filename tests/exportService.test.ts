@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { ExportFormat, ExportOptions, NewsItem } from '../types';
+import { DEFAULT_EXPORT_OPTIONS, exportDataset, formatDate, serializeCsv } from '../services/exportService';
+import { parseCsv } from '../services/importService';
+
+const item = (patch: Partial<NewsItem> = {}): NewsItem => ({
+  id: 'SYN-abc',
+  time: '2024-01-03',
+  text: 'Plain text',
+  source: 'Reuters',
+  ticker: 'XOM',
+  ...patch,
+});
+
+const only = (...keys: string[]): ExportOptions => ({
+  ...DEFAULT_EXPORT_OPTIONS,
+  columns: DEFAULT_EXPORT_OPTIONS.columns.map(c => ({ ...c, enabled: keys.includes(c.key) })),
+});
+
+describe('serializeCsv', () => {
+  it('always quotes text columns and doubles embedded quotes', () => {
+    const csv = serializeCsv([item({ text: 'Board says "no" to the plan' })], only('time', 'id', 'text'));
+    expect(csv).toBe('Time,Sample ID,text\n2024-01-03,SYN-abc,"Board says ""no"" to the plan"');
+  });
+
+  it('quotes any value containing commas, quotes or line breaks', () => {
+    const csv = serializeCsv([item({ id: 'a,b', provider: 'x"y', model: 'line\nbreak' })], only('id', 'provider', 'model'));
+    expect(csv.split('\n').slice(1).join('\n')).toBe('"a,b","x""y","line\nbreak"');
+  });
+
+  it('keeps the column order and leaves missing values empty', () => {
+    const csv = serializeCsv([item()], only('id', 'ticker', 'provider'));
+    expect(csv).toBe('Sample ID,ticker,provider\nSYN-abc,"XOM",');
+  });
+
+  it('escapes custom headers', () => {
+    const options = only('id');
+    options.columns = options.columns.map(c => c.key === 'id' ? { ...c, header: 'id, "sample"' } : c);
+    expect(serializeCsv([item()], options).split('\n')[0]).toBe('"id, ""sample"""');
+  });
+
+  it('round-trips through the CSV importer', () => {
+    const tricky = item({ text: 'Line one\nline two, with "quotes"\r\nand a CRLF', headline: '"Quoted", headline' });
+    const [header, row] = parseCsv(serializeCsv([tricky], only('time', 'text', 'headline')));
+    expect(header.fields).toEqual(['Time', 'text', 'headline']);
+    expect(row.fields).toEqual(['2024-01-03', tricky.text, tricky.headline]);
+  });
+
+  it('applies the date format', () => {
+    expect(formatDate('2024-01-03', 'US')).toBe('01/03/2024');
+    expect(formatDate('2024-01-03', 'EU')).toBe('03.01.2024');
+    expect(formatDate('2024-01-03', 'COMPACT')).toBe('20240103');
+    expect(formatDate('2024-01-03', 'UNIX')).toBe('1704240000');
+    expect(serializeCsv([item()], { ...only('time'), dateFormat: 'EU' })).toBe('Time\n03.01.2024');
+  });
+});
+
+describe('defaultColumns', () => {
+  it('keeps the legacy FinBERT columns first and includes labels and provenance', () => {
+    const labeled = item({ annotation: 'check', sentiment: 'negative', pillar: 'G', labeledBy: 'ana', runId: 'RUN-1', chunkId: 'CH-0' });
+    expect(serializeCsv([labeled], DEFAULT_EXPORT_OPTIONS)).toBe(
+      'Time,Sample ID,text,source,annotation,sentiment,pillar,labeled_by,run_id,chunk_id\n' +
+      '2024-01-03,SYN-abc,"Plain text","Reuters","check",negative,G,"ana",RUN-1,CH-0'
+    );
+  });
+});
+
+describe('exportDataset', () => {
+  it('writes the CSV with a file name from the pattern', async () => {
+    const items = [item(), item({ id: 'SYN-def' })];
+    const options = { ...only('id'), fileNamePattern: '{dataset}_{count}_{format}' };
+    const { blob, fileName } = await exportDataset(items, options, 'energy sector');
+
+    expect(fileName).toBe('energy_sector_2_csv.csv');
+    expect(await blob.text()).toBe('Sample ID\nSYN-abc\nSYN-def');
+  });
+
+  it('writes one JSON object per line for JSONL', async () => {
+    const { blob, fileName } = await exportDataset([item()], { ...only('id', 'text'), format: ExportFormat.JSONL }, 'ds');
+    expect(fileName).toMatch(/\.jsonl$/);
+    expect(JSON.parse(await blob.text())).toEqual({ 'Sample ID': 'SYN-abc', text: 'Plain text' });
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GenerationMode } from '../types';
+import { fetchESGNews, setClientFactory } from '../services/geminiService';
+import { defaultPreset } from '../services/promptPresets';
+import { configureRateLimits, DEFAULT_RATE_LIMITS } from '../services/rateLimiter';
+import { createMockClient, MockStep, settleWithFakeTimers } from './mockGenAI';
+
+const useMock = (steps: MockStep[], fallback?: MockStep) => {
+  const mock = createMockClient(steps, fallback);
+  const factory = vi.fn(() => mock.client);
+  setClientFactory(factory);
+  return { ...mock, factory };
+};
+
+beforeEach(() => {
+  process.env.API_KEY = 'test-key';
+  configureRateLimits(DEFAULT_RATE_LIMITS);
+});
+
+afterEach(() => {
+  setClientFactory();
+  delete process.env.API_KEY;
+  vi.useRealTimers();
+});
+
+describe('fetchESGNews', () => {
+  it('fails fast without an API key', async () => {
+    delete process.env.API_KEY;
+    const { factory } = useMock([{ fixture: 'synthetic' }]);
+
+    await expect(fetchESGNews('XOM', '2024-01-01', '2024-01-31', GenerationMode.SYNTHETIC, 5))
+      .rejects.toThrow('API Key is missing');
+    expect(factory).not.toHaveBeenCalled();
+  });
+
+  it('creates the client with the configured key', async () => {
+    const { factory } = useMock([{ fixture: 'synthetic' }]);
+    await fetchESGNews('XOM', '2024-01-01', '2024-01-31', GenerationMode.SYNTHETIC, 5);
+    expect(factory).toHaveBeenCalledWith('test-key');
+  });
+
+  it('maps a recorded synthetic response', async () => {
+    const { calls } = useMock([{ fixture: 'synthetic' }]);
+    const { items, request } = await fetchESGNews('XOM', '2024-01-01', '2024-01-31', GenerationMode.SYNTHETIC, 5);
+
+    expect(items).toHaveLength(5);
+    expect(items[0]).toMatchObject({ time: '2024-01-03', ticker: 'XOM', provider: 'SYNTHETIC', model: 'gemini-2.5-flash' });
+    expect(items[0].id).toMatch(/^SYN-/);
+    expect(items[0].verification).toBeUndefined();
+    expect(calls[0].model).toBe('gemini-2.5-flash');
+    expect(calls[0].config?.tools).toBeUndefined();
+    expect(calls[0].contents).toContain('strictly within 2024-01-01 to 2024-01-31');
+    expect(request).toMatchObject({ modelVersion: 'gemini-2.5-flash-001', responseId: 'resp-syn-001' });
+    expect(request?.promptHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('builds the request from a prompt preset', async () => {
+    const { calls } = useMock([{ fixture: 'synthetic' }]);
+    const preset = {
+      ...defaultPreset(GenerationMode.SYNTHETIC),
+      model: 'gemini-2.5-pro',
+      template: '{count} items about {ticker} from {startDate} to {endDate}: {topics}',
+      topics: 'water use',
+      temperature: 0.2,
+      seed: 7,
+    };
+    const { items, request } = await fetchESGNews('XOM', '2024-01-01', '2024-01-31', GenerationMode.SYNTHETIC, 5, preset);
+
+    expect(calls[0].model).toBe('gemini-2.5-pro');
+    expect(calls[0].contents).toBe('5 items about XOM from 2024-01-01 to 2024-01-31: water use');
+    expect(calls[0].config).toMatchObject({ temperature: 0.2, seed: 7 });
+    expect(items[0].model).toBe('gemini-2.5-pro');
+    expect(request).toMatchObject({ model: 'gemini-2.5-pro', temperature: 0.2, seed: 7 });
+  });
+
+  it('cross-checks live search items against the grounding metadata', async () => {
+    const { calls } = useMock([{ fixture: 'live-search' }]);
+    const { items, request } = await fetchESGNews('S&P 500 Energy Sector', '2024-03-01', '2024-03-31', GenerationMode.LIVE_SEARCH, 3);
+
+    expect(calls[0].model).toBe('gemini-3-pro-preview');
+    expect(calls[0].config?.tools).toEqual([{ googleSearch: {} }]);
+    expect(items.map(i => i.publisher)).toEqual(['Reuters', 'CNBC', 'Bloomberg']);
+    // Reuters via a grounding support, CNBC by exact URL, Bloomberg never came up in the search
+    expect(items.map(i => i.verification)).toEqual(['verified', 'verified', 'suspected']);
+    expect(items[0].citations?.[0].title).toBe('reuters.com');
+    expect(request?.groundingSources).toHaveLength(2);
+    expect(request?.searchQueries).toEqual(['S&P 500 Energy Sector ESG news March 2024']);
+  });
+
+  it('returns short responses as they are', async () => {
+    useMock([{ fixture: 'synthetic', items: 2 }]);
+    const { items } = await fetchESGNews('XOM', '2024-01-01', '2024-01-31', GenerationMode.SYNTHETIC, 5);
+    expect(items).toHaveLength(2);
+  });
+
+  it('returns no items when the JSON is not a list', async () => {
+    useMock([{ text: '{"error": "no results"}' }]);
+    const { items } = await fetchESGNews('XOM', '2024-01-01', '2024-01-31', GenerationMode.SYNTHETIC, 5);
+    expect(items).toEqual([]);
+  });
+
+  it('skips entries that are not objects', async () => {
+    useMock([{ text: '[null, "oops", {"date": "2024-01-05", "headline": "Kept", "summary": "Still here"}]' }]);
+    const { items } = await fetchESGNews('XOM', '2024-01-01', '2024-01-31', GenerationMode.SYNTHETIC, 5);
+    expect(items.map(i => i.headline)).toEqual(['Kept']);
+  });
+
+  it('retries malformed JSON through the scheduler', async () => {
+    vi.useFakeTimers();
+    const { calls } = useMock([{ text: '[{"date": "2024-01-03", "headline": "Cut o' }], { fixture: 'synthetic' });
+
+    const result = await settleWithFakeTimers(fetchESGNews('XOM', '2024-01-01', '2024-01-31', GenerationMode.SYNTHETIC, 5));
+    expect(result.items).toHaveLength(5);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('does not retry rejected keys', async () => {
+    const { calls } = useMock([{ error: { status: 400, message: 'API key not valid. Please pass a valid API key.' } }]);
+    await expect(fetchESGNews('XOM', '2024-01-01', '2024-01-31', GenerationMode.SYNTHETIC, 5))
+      .rejects.toThrow('API key not valid');
+    expect(calls).toHaveLength(1);
+  });
+});
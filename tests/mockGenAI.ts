@@ -0,0 +1,73 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { vi } from 'vitest';
+import { GenerateContentParameters, GenerateContentResponse } from '@google/genai';
+import { GenAIClient } from '../services/geminiService';
+
+// Fixture-driven stand-in for the GoogleGenAI client: replays recorded responses step by step
+
+export type MockStep =
+  | { fixture: string; items?: number }          // Recorded response, optionally cut to the first N items
+  | { text: string }                              // Raw response text, e.g. malformed JSON
+  | { error: { status?: number; message: string } };
+
+export const loadFixture = (name: string): any =>
+  JSON.parse(readFileSync(path.join(__dirname, 'fixtures', 'gemini', `${name}.json`), 'utf8'));
+
+const textOf = (raw: any): string => raw.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+
+const withText = (raw: any, text: string) => ({
+  ...raw,
+  candidates: [{ ...raw.candidates[0], content: { ...raw.candidates[0].content, parts: [{ text }] } }],
+});
+
+// Same class the SDK returns, so `.text` and friends behave like the real thing
+const toResponse = (raw: any) => Object.assign(new GenerateContentResponse(), raw);
+
+const replay = (step: MockStep): GenerateContentResponse => {
+  if ('error' in step) {
+    throw Object.assign(new Error(step.error.message), { status: step.error.status });
+  }
+  if ('text' in step) {
+    return toResponse(withText(loadFixture('synthetic'), step.text));
+  }
+  const raw = loadFixture(step.fixture);
+  if (step.items === undefined) return toResponse(raw);
+  return toResponse(withText(raw, JSON.stringify(JSON.parse(textOf(raw)).slice(0, step.items))));
+};
+
+export interface MockClient {
+  client: GenAIClient;
+  calls: GenerateContentParameters[];
+  remaining: () => number;
+}
+
+// Steps are consumed in order; once they run out, `fallback` (if any) answers every further call
+export const createMockClient = (steps: MockStep[], fallback?: MockStep): MockClient => {
+  const queue = [...steps];
+  const calls: GenerateContentParameters[] = [];
+
+  const generateContent = async (params: GenerateContentParameters) => {
+    calls.push(params);
+    const step = queue.shift() || fallback;
+    if (!step) throw new Error('Mock client ran out of recorded responses');
+    return replay(step);
+  };
+
+  return {
+    client: { models: { generateContent } } as unknown as GenAIClient,
+    calls,
+    remaining: () => queue.length,
+  };
+};
+
+// Advance fake timers until the promise settles; requests may start only after real async work (e.g. hashing)
+export const settleWithFakeTimers = async <T>(promise: Promise<T>, stepMs = 1000, maxSteps = 1000): Promise<T> => {
+  let done = false;
+  const tracked = promise.finally(() => { done = true; });
+  tracked.catch(() => undefined);
+  for (let i = 0; i < maxSteps && !done; i++) {
+    await vi.advanceTimersByTimeAsync(stepMs);
+  }
+  return tracked;
+};
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { classifyError, createScheduler, retryDelayOf } from '../services/rateLimiter';
+
+const httpError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+const limits = { requestsPerMinute: 100, tokensPerMinute: 1000000, maxConcurrency: 2 };
+
+describe('classifyError', () => {
+  it('tells quota, transient and fatal errors apart', () => {
+    expect(classifyError(httpError(429, 'Too Many Requests'))).toBe('RATE_LIMIT');
+    expect(classifyError(new Error('RESOURCE_EXHAUSTED: quota exceeded'))).toBe('RATE_LIMIT');
+    expect(classifyError(httpError(503, 'Service Unavailable'))).toBe('RETRYABLE');
+    expect(classifyError(new SyntaxError('Unexpected end of JSON input'))).toBe('RETRYABLE');
+    expect(classifyError(httpError(401, 'Unauthorized'))).toBe('FATAL');
+    expect(classifyError(new Error('API Key is missing. Please select a paid API key.'))).toBe('FATAL');
+  });
+
+  it('reads a status from the message only where it is marked as one', () => {
+    expect(classifyError(new Error('got status: 400 Bad Request. {"error":{}}'))).toBe('FATAL');
+    expect(classifyError(new Error('[503 Service Unavailable] The model is overloaded'))).toBe('RETRYABLE');
+    expect(classifyError(Object.assign(new Error('Bad request'), { code: '400' }))).toBe('FATAL');
+    // Counts, ports and model ids are not statuses
+    expect(classifyError(new Error('Response cut off after 404 items'))).toBe('RETRYABLE');
+    expect(classifyError(new Error('connect ECONNREFUSED 10.0.0.1:403'))).toBe('RETRYABLE');
+  });
+
+  it('reads the suggested retry delay from quota errors', () => {
+    expect(retryDelayOf(new Error('Please retry in 17.2s.'))).toBe(17200);
+    expect(retryDelayOf(new Error('{"retryDelay": "30s"}'))).toBe(30000);
+    expect(retryDelayOf(new Error('quota exceeded'))).toBeNull();
+  });
+});
+
+describe('createScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Resolve a scheduled request while letting the fake clock run through every backoff
+  const settle = async <T>(promise: Promise<T>) => {
+    const result = promise.then(value => ({ value }), error => ({ error }));
+    await vi.runAllTimersAsync();
+    return result as Promise<{ value?: T; error?: any }>;
+  };
+
+  it('retries transient errors with exponential backoff', async () => {
+    const scheduler = createScheduler(limits);
+    const startedAt: number[] = [];
+    const request = vi.fn(async () => {
+      startedAt.push(Date.now());
+      if (startedAt.length < 3) throw httpError(503, 'Service Unavailable');
+      return 'ok';
+    });
+
+    const { value } = await settle(scheduler.schedule(request, 100));
+    expect(value).toBe('ok');
+    expect(request).toHaveBeenCalledTimes(3);
+    // 1s then 2s base delays, with ±50% jitter
+    expect(startedAt[1] - startedAt[0]).toBeGreaterThanOrEqual(500);
+    expect(startedAt[2] - startedAt[1]).toBeGreaterThanOrEqual(1000);
+    expect(scheduler.stats().retried).toBe(2);
+  });
+
+  it('gives up after four attempts', async () => {
+    const scheduler = createScheduler(limits);
+    const request = vi.fn(async () => { throw httpError(500, 'Internal error'); });
+
+    const { error } = await settle(scheduler.schedule(request, 100));
+    expect(error?.message).toBe('Internal error');
+    expect(request).toHaveBeenCalledTimes(4);
+  });
+
+  it('does not retry fatal errors', async () => {
+    const scheduler = createScheduler(limits);
+    const request = vi.fn(async () => { throw httpError(403, 'PERMISSION_DENIED'); });
+
+    const { error } = await settle(scheduler.schedule(request, 100));
+    expect(error?.status).toBe(403);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits out the suggested delay of a quota error and halves concurrency', async () => {
+    const scheduler = createScheduler({ ...limits, maxConcurrency: 6 });
+    const startedAt: number[] = [];
+    const concurrency: number[] = [];
+    const request = vi.fn(async () => {
+      startedAt.push(Date.now());
+      concurrency.push(scheduler.stats().concurrency);
+      if (startedAt.length === 1) throw httpError(429, 'RESOURCE_EXHAUSTED. Please retry in 7s.');
+      return 'ok';
+    });
+
+    const { value } = await settle(scheduler.schedule(request, 100));
+    expect(value).toBe('ok');
+    expect(startedAt[1] - startedAt[0]).toBeGreaterThanOrEqual(7000);
+    expect(scheduler.stats().rateLimited).toBe(1);
+    // Starts at 3 parallel requests, the retry runs at half that
+    expect(concurrency).toEqual([3, 1]);
+  });
+
+  it('applies new limits to requests that are already waiting', async () => {
+    const scheduler = createScheduler({ ...limits, requestsPerMinute: 1 });
+    const startedAt: number[] = [];
+    const request = async () => { startedAt.push(Date.now()); return 'ok'; };
+
+    const all = Promise.all([1, 2].map(() => scheduler.schedule(request, 100)));
+    await vi.advanceTimersByTimeAsync(1000);
+    scheduler.configure({ ...limits, requestsPerMinute: 10 });
+    await settle(all);
+    expect(startedAt[1] - startedAt[0]).toBeLessThan(60000);
+  });
+
+  it('keeps to the requests-per-minute budget', async () => {
+    const scheduler = createScheduler({ ...limits, requestsPerMinute: 2 });
+    const startedAt: number[] = [];
+    const request = async () => { startedAt.push(Date.now()); return 'ok'; };
+
+    const all = Promise.all([1, 2, 3].map(() => scheduler.schedule(request, 100)));
+    await settle(all);
+    expect(startedAt).toHaveLength(3);
+    expect(startedAt[2] - startedAt[0]).toBeGreaterThanOrEqual(60000);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { CrawlChunk, NewsItem, SyntheticTargets } from '../types';
+import { createRun } from '../services/crawlPlan';
+import { DEFAULT_VALIDATION_OPTIONS, validateItem } from '../services/validationService';
+import { apportion, describeMix, mixReport, parseGeneratedLabels, planChunkMix, tallyItems } from '../services/syntheticMix';
+
+const chunk = (patch: Partial<CrawlChunk> = {}): CrawlChunk => ({
+  id: 'CH-0', start: '2020-03-01', end: '2020-03-21', count: 20, status: 'pending', itemCount: 0, ...patch,
+});
+
+const item = (patch: Partial<NewsItem> = {}): NewsItem => ({ id: 'SYN-1', time: '2020-03-02', text: '', ticker: 'XOM', ...patch });
+
+const targets: SyntheticTargets = {
+  sentiment: { positive: 40, negative: 40, neutral: 20 },
+  publisher: { Reuters: 1, Bloomberg: 1 },
+  events: [{ description: 'Governance scandal', start: '2020-03-10', end: '2020-04-08', items: 6 }],
+};
+
+describe('apportion', () => {
+  it('splits into whole numbers that add up to the total', () => {
+    expect(apportion({ positive: 40, negative: 40, neutral: 20 }, 25)).toEqual({ positive: 10, negative: 10, neutral: 5 });
+    expect(apportion({ a: 1, b: 1, c: 1 }, 4)).toEqual({ a: 2, b: 1, c: 1 });
+  });
+});
+
+describe('planChunkMix', () => {
+  it('starts from the target shares', () => {
+    const mix = planChunkMix(targets, undefined, chunk());
+    expect(mix.sentiment).toEqual({ positive: 8, negative: 8, neutral: 4 });
+    expect(mix.publisher).toEqual({ Reuters: 10, Bloomberg: 10 });
+    expect(mix.pillar).toBeUndefined();
+  });
+
+  it('makes up for earlier windows that came back skewed', () => {
+    const tally = tallyItems(undefined, Array.from({ length: 20 }, () => item({ generated: { sentiment: 'positive' } })), targets);
+    const mix = planChunkMix(targets, tally, chunk({ start: '2020-03-21', end: '2020-04-10' }));
+    // After 40 items the run should hold 16 negative and 8 neutral; the 20 slots are split by that shortfall
+    expect(mix.sentiment).toEqual({ negative: 13, neutral: 7 });
+  });
+
+  it('asks for events by how much of their range a window covers', () => {
+    // 11 of the event's 30 days fall into the window, and only those are asked for
+    expect(planChunkMix(targets, undefined, chunk()).events).toEqual([{ ...targets.events[0], index: 0, items: 2, start: '2020-03-10', end: '2020-03-20' }]);
+    expect(planChunkMix(targets, undefined, chunk({ start: '2020-04-09', end: '2020-04-29' })).events).toBeUndefined();
+  });
+
+  it('plans an event on the window boundary in the window that contains that day', () => {
+    // Window ends are exclusive: 2020-03-20 is the last day of the window, 2020-03-21 the first of the next one
+    const onLastDay = { ...targets, events: [{ description: 'Fine', start: '2020-03-20', end: '2020-03-20', items: 1 }] };
+    expect(planChunkMix(onLastDay, undefined, chunk()).events).toMatchObject([{ start: '2020-03-20', end: '2020-03-20', items: 1 }]);
+    const onEnd = { ...targets, events: [{ description: 'Fine', start: '2020-03-21', end: '2020-03-21', items: 1 }] };
+    expect(planChunkMix(onEnd, undefined, chunk()).events).toBeUndefined();
+    expect(planChunkMix(onEnd, undefined, chunk({ start: '2020-03-21', end: '2020-04-10' })).events).toMatchObject([{ start: '2020-03-21', end: '2020-03-21' }]);
+
+    // Validation agrees on which window a day belongs to
+    const text = 'The company disclosed a governance fine after regulators completed their review of board oversight.';
+    const dated = (time: string) => validateItem(item({ time, text }), DEFAULT_VALIDATION_OPTIONS, chunk()).map(i => i.rule);
+    expect(dated('2020-03-20')).not.toContain('DATE_WINDOW');
+    expect(dated('2020-03-21')).toContain('DATE_WINDOW');
+  });
+
+  it('stops asking once an event has all its items', () => {
+    const tally = tallyItems(undefined, Array.from({ length: 6 }, () => item({ generated: { event: 0 } })), targets);
+    expect(planChunkMix(targets, tally, chunk()).events).toBeUndefined();
+  });
+});
+
+describe('describeMix', () => {
+  it('lists the exact counts for the prompt', () => {
+    const text = describeMix(planChunkMix(targets, undefined, chunk()));
+    expect(text).toContain('Sentiment (for an ESG investor): 8 positive, 8 negative, 4 neutral');
+    expect(text).toContain('Event #1: 2 item(s) must report on "Governance scandal", dated between 2020-03-10 and 2020-03-20');
+  });
+});
+
+describe('parseGeneratedLabels', () => {
+  it('keeps only known labels and requested events', () => {
+    const mix = planChunkMix(targets, undefined, chunk());
+    expect(parseGeneratedLabels({ sentiment: 'negative', pillar: 'X', event: 1 }, mix)).toEqual({ sentiment: 'negative', event: 0 });
+    expect(parseGeneratedLabels({ sentiment: 'angry', event: 2 }, mix)).toBeUndefined();
+  });
+});
+
+describe('mixReport', () => {
+  it('compares the kept items against the targets', () => {
+    const run = createRun('ds', { ticker: 'XOM', startDate: '2020-01-01', endDate: '2020-06-01', mode: 'SYNTHETIC', itemsPerDay: 1, synthetic: targets });
+    run.mix = tallyItems(undefined, [
+      item({ publisher: 'reuters', generated: { sentiment: 'positive', event: 0 } }),
+      item({ publisher: 'Bloomberg', generated: { sentiment: 'negative' } }),
+      item({ publisher: 'FT' }),
+    ], targets);
+
+    const rows = mixReport(run);
+    expect(rows.filter(r => r.dimension === 'sentiment').map(r => [r.key, r.requested, r.achieved])).toEqual([
+      ['positive', 1, 1], ['negative', 1, 1], ['neutral', 1, 0], ['unlabeled', 0, 1],
+    ]);
+    expect(rows.filter(r => r.dimension === 'publisher').map(r => [r.key, r.achieved])).toEqual([['Reuters', 1], ['Bloomberg', 1], ['other', 1]]);
+    expect(rows.find(r => r.dimension === 'event')).toMatchObject({ key: 'Governance scandal', requested: 6, achieved: 1 });
+  });
+});
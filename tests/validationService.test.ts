@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { NewsItem } from '../types';
+import { DEFAULT_VALIDATION_OPTIONS, validateItem } from '../services/validationService';
+import { archiveProvider, clearArchive, loadArchiveFiles } from '../services/providers/archiveProvider';
+
+const window = { start: '2024-01-01', end: '2024-02-01' };
+
+const rss = `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Energy Wire</title>
+  <item>
+    <title>Exxon Mobil expands its methane monitoring programme across all of the Permian Basin sites</title>
+    <link>https://example.com/exxon-methane</link>
+    <pubDate>Tue, 09 Jan 2024 08:00:00 GMT</pubDate>
+  </item>
+</channel></rss>`;
+
+afterEach(() => clearArchive());
+
+describe('validateItem', () => {
+  it('judges archive entries without a description by their text', async () => {
+    await loadArchiveFiles([new File([rss], 'feed.xml')]);
+    const { items } = await archiveProvider.fetch(window, 'XOM', 5);
+
+    expect(items).toHaveLength(1);
+    expect(items[0].summary).toBeUndefined();
+    expect(validateItem(items[0], DEFAULT_VALIDATION_OPTIONS, window)).toEqual([]);
+  });
+
+  it('still flags a summary the provider returned empty', () => {
+    const item: NewsItem = {
+      id: 'SYN-1', time: '2024-01-09', ticker: 'XOM', headline: 'Exxon expands methane monitoring', summary: ' ',
+      text: 'Exxon expands methane monitoring across all of the Permian Basin sites.',
+    };
+    expect(validateItem(item, DEFAULT_VALIDATION_OPTIONS, window).map(i => i.message)).toContain('Empty summary');
+  });
+});
@@ -4,19 +4,211 @@ export interface NewsItem {
   text: string;    // The content for FinBERT
   source?: string; // Optional metadata (URL or 'Synthetic')
   ticker: string;
+  headline?: string;  // Original headline
+  summary?: string;   // Article snippet / summary
+  url?: string;       // Original article URL
+  publisher?: string; // Publisher name (e.g. Reuters)
+  provider?: string;  // Id of the NewsProvider that produced the item
+  model?: string;     // Model id, when the item came from an LLM
+  manualText?: boolean; // Text was edited by hand; template changes leave it alone
+  annotation?: string;  // Free-form curator note
+  sentiment?: SentimentLabel; // Manual gold label
+  pillar?: EsgPillar;         // Manual gold label
+  labeledBy?: string;         // Annotator who set the labels
+  pillars?: EsgPillar[];      // Automatic classification, strongest first
+  topics?: string[];          // Topic ids from the taxonomy in services/classifier
+  classifiedBy?: string;      // 'lexicon' or the model id of the LLM pass
+  jobId?: string;             // Queued job that collected the item
+  company?: string;           // Constituent name, for per-company crawls
+  sector?: string;            // GICS sector, for per-company crawls
+  runId?: string;             // Crawl run that collected the item (see the run manifest)
+  chunkId?: string;           // Window of that run the item came from
+  verification?: VerificationStatus; // Live search only: cross-check against the search grounding
+  citations?: GroundingSource[];     // Grounding sources backing the item
+  generated?: GeneratedLabels;       // Synthetic only: what the generator says it wrote
 }
 
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+export type EsgPillar = 'E' | 'S' | 'G';
+
+export type VerificationStatus = 'verified' | 'unverified' | 'suspected';
+
+// Labels the synthetic generator reports for an item it was asked to write to a target mix
+export interface GeneratedLabels {
+  sentiment?: SentimentLabel;
+  pillar?: EsgPillar;
+  event?: number;   // Index into SyntheticTargets.events
+}
+
+// Labels from one annotator, keyed by Sample ID; used to measure inter-annotator agreement
+export interface LabelSet {
+  id: string;
+  datasetId: string;
+  annotator: string;
+  labels: Record<string, { sentiment?: SentimentLabel; pillar?: EsgPillar }>;
+  importedAt: string;
+}
+
+// How the FinBERT `text` field is derived from headline and summary
+export enum TextTemplate {
+  HEADLINE = 'HEADLINE',
+  SUMMARY = 'SUMMARY',
+  HEADLINE_SUMMARY = 'HEADLINE_SUMMARY',
+}
+
+// Ids of the built-in providers (see services/providers)
 export enum GenerationMode {
   LIVE_SEARCH = 'LIVE_SEARCH',
   SYNTHETIC = 'SYNTHETIC',
+  ARCHIVE = 'ARCHIVE',
 }
 
 export interface GenerationConfig {
   ticker: string;
   startDate: string;
   endDate: string;
-  mode: GenerationMode;
+  mode: string;        // Id of a registered NewsProvider
   itemsPerDay: number; // Changed from raw count
+  company?: string;    // Set when the job was expanded to a single index constituent
+  sector?: string;
+  presetId?: string;   // Prompt/model preset; the mode's built-in one when unset
+  synthetic?: SyntheticTargets; // SYNTHETIC only: target distributions and injected events
+}
+
+// Target distributions for synthetic runs. Weights are relative: 40/40/20 and 0.4/0.4/0.2 mean the same
+export interface SyntheticTargets {
+  sentiment?: Partial<Record<SentimentLabel, number>>;
+  pillar?: Partial<Record<EsgPillar, number>>;
+  publisher?: Record<string, number>;   // Publisher whose house style to imitate
+  events?: SyntheticEvent[];
+}
+
+// A storyline the generator has to cover within a date range, e.g. a governance scandal in 2020-03
+export interface SyntheticEvent {
+  description: string;
+  start: string;   // YYYY-MM-DD, inclusive
+  end: string;     // YYYY-MM-DD, inclusive
+  items: number;   // Items about the event across the range
+}
+
+// Quotas for one window, derived from the targets and what the run has produced so far
+export interface ChunkMix {
+  sentiment?: Record<string, number>;
+  pillar?: Record<string, number>;
+  publisher?: Record<string, number>;
+  events?: (SyntheticEvent & { index: number })[];  // items = quota, start/end = dates inside this window
+}
+
+// Generated labels of the items a run kept
+export interface MixTally {
+  total: number;
+  sentiment: Record<string, number>;
+  pillar: Record<string, number>;
+  publisher: Record<string, number>;
+  events: Record<string, number>;   // Keyed by event index
+}
+
+// Achieved vs. requested for one value of a target distribution
+export interface MixReportRow {
+  dimension: 'sentiment' | 'pillar' | 'publisher' | 'event';
+  key: string;
+  targetShare?: number;  // Not set for events, which have absolute counts
+  requested: number;     // Target share of the kept items, or the event's item count
+  achieved: number;
+}
+
+// Saved prompt template and model settings for an LLM provider (see services/promptPresets)
+export interface PromptPreset {
+  id: string;
+  name: string;
+  mode: string;           // Provider the preset is meant for
+  model: string;
+  template: string;       // Variables: {ticker} {startDate} {endDate} {count} {topics}
+  topics: string;         // Substituted for {topics}
+  temperature?: number;   // API default when unset
+  seed?: number;
+  builtIn?: boolean;
+  updatedAt: string;
+}
+
+// A row of a point-in-time index membership table
+export interface Constituent {
+  ticker: string;
+  name: string;
+  sector: string;   // GICS sector
+  joined?: string;  // YYYY-MM-DD; open when unknown
+  left?: string;    // YYYY-MM-DD; open while still a member
+}
+
+// Windows are half-open: `end` is the first day after the window, i.e. the next window's start
+export interface CrawlWindow {
+  start: string; // YYYY-MM-DD, first day in the window
+  end: string;   // YYYY-MM-DD, exclusive
+}
+
+export interface Classification {
+  id: string; // NewsItem id
+  pillars: EsgPillar[];
+  topics: string[];
+}
+
+// A web page returned by Google Search grounding
+export interface GroundingSource {
+  url: string;
+  title?: string;
+}
+
+// What was sent and received for one window, kept for the run manifest
+export interface ChunkRequest {
+  requestedAt: string;
+  durationMs: number;      // Includes time spent queued in the rate limiter
+  model?: string;
+  modelVersion?: string;   // Exact version reported by the API
+  temperature?: number;
+  seed?: number;
+  responseId?: string;
+  promptHash?: string;     // SHA-256 of the exact prompt sent
+  templateHash?: string;   // Key into CrawlRun.prompts
+  searchQueries?: string[];
+  groundingSources?: GroundingSource[];
+  usage?: TokenUsage;
+  cost?: number;           // USD at the list prices in services/costService when the window ran
+}
+
+// Billed usage of one request, from the response's usage metadata
+export interface TokenUsage {
+  promptTokens: number;    // Includes search results fed back to the model
+  outputTokens: number;    // Response plus thinking tokens
+  searchCalls: number;     // Google Search queries run by the grounding tool
+}
+
+// Usage and cost summed per model, either recorded or estimated from a chunk plan
+export interface UsageTotals extends TokenUsage {
+  model: string;
+  requests: number;
+  cost: number;            // USD
+}
+
+export interface FetchResult {
+  items: NewsItem[];
+  request?: Omit<ChunkRequest, 'requestedAt' | 'durationMs'>;
+  promptTemplate?: string; // Template the prompt was rendered from; stored once per run under request.templateHash
+}
+
+export interface FetchOptions {
+  preset?: PromptPreset;
+  mix?: ChunkMix;
+}
+
+// A source of news items for a date window; registered in services/providers
+export interface NewsProvider {
+  id: string;
+  label: string;
+  description: string;
+  fetch: (window: CrawlWindow, scope: string, count: number, options?: FetchOptions) => Promise<FetchResult>;
+  // Optional LLM pass that assigns ESG pillars/topics from the taxonomy
+  classify?: (items: NewsItem[]) => Promise<Classification[]>;
 }
 
 export const TARGET_SCOPES = [
@@ -25,4 +217,183 @@ export const TARGET_SCOPES = [
   "S&P 500 Top 10 Constituents",
   "S&P 500 Energy Sector",
   "S&P 500 Technology Sector"
-];
\ No newline at end of file
+];
+
+export interface Dataset {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  itemCount: number;
+}
+
+// Persisted form of a NewsItem: keeps the dataset it belongs to and the config that produced it
+export interface StoredNewsItem extends NewsItem {
+  datasetId: string;
+  config?: GenerationConfig;
+}
+
+export type ChunkStatus = 'pending' | 'succeeded' | 'failed';
+
+// One date window of a crawl sequence, checkpointed so runs can be resumed
+export interface CrawlChunk {
+  id: string;
+  start: string;      // YYYY-MM-DD, first day in the window
+  end: string;        // YYYY-MM-DD, exclusive (see CrawlWindow)
+  count: number;      // Items requested for this window
+  status: ChunkStatus;
+  itemCount: number;  // Items kept after validation and dedup
+  received?: number;  // Items the provider returned, before validation and dedup
+  parentId?: string;  // Set on top-up sub-windows of an under-filled window
+  depth?: number;     // Top-up generation (0 for planned windows)
+  error?: string;
+  request?: ChunkRequest; // Metadata of the latest attempt
+  mix?: ChunkMix;         // Synthetic quotas asked for in the latest attempt
+}
+
+export type RunStatus = 'running' | 'completed' | 'stopped' | 'failed';
+
+export interface CrawlRun {
+  id: string;
+  datasetId: string;
+  config: GenerationConfig;
+  chunks: CrawlChunk[];
+  status: RunStatus;
+  createdAt: string;
+  updatedAt: string;
+  prompts?: Record<string, string>; // Prompt templates used by the windows, keyed by SHA-256
+  mix?: MixTally;                   // Synthetic runs with targets: labels of the kept items
+}
+
+export type JobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+export type JobExecution = 'sequential' | 'interleaved';
+
+// One queued crawl configuration; running it creates (or resumes) a CrawlRun
+export interface CrawlJob {
+  id: string;
+  datasetId: string;
+  label: string;
+  config: GenerationConfig;
+  status: JobStatus;
+  runId?: string;
+  createdAt: string;
+}
+
+export type DuplicateReason = 'URL' | 'HEADLINE' | 'NEAR_DUPLICATE';
+
+export interface DedupOptions {
+  enabled: boolean;
+  threshold: number; // Estimated Jaccard similarity (0-1) above which texts count as near-duplicates
+}
+
+// An incoming item that was dropped because it matched one already collected
+export interface DroppedDuplicate {
+  item: NewsItem;
+  reason: DuplicateReason;
+  matchedId: string;
+  similarity: number;
+}
+
+export interface RateLimitOptions {
+  requestsPerMinute: number;
+  tokensPerMinute: number;  // Estimated prompt + response tokens
+  maxConcurrency: number;
+}
+
+export type ErrorKind = 'RATE_LIMIT' | 'RETRYABLE' | 'FATAL';
+
+export type ValidationRule = 'DATE_FORMAT' | 'DATE_WINDOW' | 'TEXT_LENGTH' | 'URL' | 'LANGUAGE' | 'ESG_RELEVANCE' | 'GROUNDING';
+
+export interface ValidationOptions {
+  enabled: boolean;
+  dateInWindow: boolean;
+  minTextLength: number;
+  maxTextLength: number;
+  requireValidUrl: boolean;   // Only checked when an item has a URL
+  englishOnly: boolean;
+  requireEsgKeywords: boolean;
+  requireVerified: boolean;   // Quarantine live-search items their grounding does not verify
+}
+
+export interface ValidationIssue {
+  rule: ValidationRule;
+  message: string;
+}
+
+// An incoming item held back because it failed one or more validation rules
+export interface QuarantinedItem {
+  item: NewsItem;
+  issues: ValidationIssue[];
+}
+
+// Persisted per dataset (keyed by the item id) so the quarantine survives reloads
+export interface StoredQuarantinedItem extends QuarantinedItem {
+  id: string;
+  datasetId: string;
+  quarantinedAt: string;
+}
+
+export enum ExportFormat {
+  CSV = 'CSV',
+  JSONL = 'JSONL',
+  ARROW = 'ARROW',     // Arrow IPC file (readable by pandas/pyarrow/polars)
+  HF_JSON = 'HF_JSON', // Hugging Face `datasets` JSON ({ features, data })
+}
+
+export type DateFormat = 'ISO' | 'US' | 'EU' | 'COMPACT' | 'UNIX';
+
+// One output column: which NewsItem field it reads and what header it gets
+export interface ExportColumn {
+  key: string;
+  header: string;
+  enabled: boolean;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: ExportColumn[];
+  dateFormat: DateFormat;
+  fileNamePattern: string; // Tokens: {dataset} {date} {count} {format}
+}
+
+// Provenance of one crawl run, shipped with every export
+export interface RunManifest {
+  id: string;
+  status: RunStatus;
+  createdAt: string;
+  updatedAt: string;
+  config: GenerationConfig;
+  models: string[];
+  prompts: { hash: string; text: string }[];
+  counts: {
+    windows: number;
+    succeeded: number;
+    failed: number;
+    topUps: number;
+    requested: number;  // Items the planned windows asked for
+    received: number;   // Items the provider returned
+    kept: number;       // Items kept after validation and dedup
+    exported: number;   // Items of this run in the export
+  };
+  usage: UsageTotals[];
+  mix?: MixReportRow[];  // Synthetic targets: achieved vs. requested
+  chunks: CrawlChunk[];
+}
+
+export interface DatasetManifest {
+  manifestVersion: number;
+  generatedAt: string;
+  dataset: string;
+  file: string;
+  format: ExportFormat;
+  itemCount: number;
+  untrackedItems: number; // Imported or pre-manifest items without a run
+  runs: RunManifest[];
+}
+
+// A row the importer could not turn into a NewsItem
+export interface RejectedRow {
+  row: number;   // 1-based line/row number in the source file (header = row 1 for CSV)
+  reason: string;
+  raw: string;
+}
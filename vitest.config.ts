@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Separate from vite.config.ts so the build-time API key define doesn't leak into tests
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+  },
+});